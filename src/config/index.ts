@@ -9,75 +9,294 @@ const EnvironmentSchema = z.object({
   NODE_ENV: z.enum(['development', 'production', 'test']).default('development'),
   PORT: z.string().transform(Number).default('3000'),
 
+  // LLM provider selection
+  LLM_PROVIDER: z.enum(['gemini', 'openai', 'fake']).default('gemini'),
+
   // Gemini API
   GEMINI_API_KEY: z.string().optional(),
   GOOGLE_AI_API_KEY: z.string().optional(), // Alternative name
+  GEMINI_MODEL: z.string().default('gemini-2.0-flash-lite'),
+  GEMINI_EMBEDDING_MODEL: z.string().default('embedding-001'),
+
+  // OpenAI-compatible API (OpenAI, vLLM, llama.cpp server, Ollama)
+  OPENAI_BASE_URL: z.string().default('http://localhost:11434/v1'),
+  OPENAI_API_KEY: z.string().optional(),
+  OPENAI_MODEL: z.string().default('llama3.1'),
+  OPENAI_EMBEDDING_MODEL: z.string().default('nomic-embed-text'),
+  OPENAI_TIMEOUT_MS: z.string().transform(Number).default('60000'), // until the response headers arrive
+  OPENAI_STREAM_IDLE_TIMEOUT_MS: z.string().transform(Number).default('30000'), // longest gap between streamed chunks
 
   // Weather API
   OPENWEATHER_API_KEY: z.string().optional(),
 
+  // Embeddings for chunks and queries: llm (follows LLM_PROVIDER) | gemini | openai | hash (offline)
+  EMBEDDING_PROVIDER: z.enum(['llm', 'gemini', 'openai', 'hash']).default('llm'),
+  EMBEDDING_DIMENSIONS: z.string().transform(Number).default('256'), // hash provider only
+  EMBEDDING_CACHE: z.enum(['true', 'false']).default('true').transform(value => value === 'true'),
+  EMBEDDING_CACHE_PATH: z.string().default('data/embedding-cache.sqlite'),
+  EMBEDDING_CACHE_MAX_ENTRIES: z.string().transform(Number).default('100000'), // least recently used are evicted beyond this
+
+  // Vector store selection: weaviate | local (in-process cosine store)
+  VECTOR_STORE: z.enum(['weaviate', 'local']).default('weaviate'),
+  VECTOR_STORE_PATH: z.string().optional(), // local store only; unset keeps the index in memory
+
   // Weaviate Vector Database
   WEAVIATE_URL: z.string().default('https://your-cluster.weaviate.network'),
   WEAVIATE_API_KEY: z.string().optional(),
+  WEAVIATE_VECTORIZER: z.string().default('text2vec-weaviate'), // module set on classes we create
 
   // Server config
   CORS_ORIGIN: z.string().default('*'),
   LOG_LEVEL: z.enum(['debug', 'info', 'warn', 'error']).default('info'),
+  TRUST_PROXY: z.string().default('false'), // true, a hop count, or proxy addresses/CIDRs to take X-Forwarded-For from
+
+  // API key authentication: keys are stored hashed; the bootstrap key acts as an admin key for issuing the first ones
+  AUTH_ENABLED: z.enum(['true', 'false']).default('false').transform(value => value === 'true'),
+  AUTH_KEYS_PATH: z.string().default('data/api-keys.sqlite'),
+  AUTH_BOOTSTRAP_KEY: z.literal('').or(z.string().min(32)).optional(),
+
+  // Token-bucket rate limits (requests per minute, bursts up to the same number; 0 = no limit)
+  RATE_LIMIT_ENABLED: z.enum(['true', 'false']).default('true').transform(value => value === 'true'),
+  RATE_LIMIT_STORE: z.enum(['memory', 'redis']).default('memory'),
+  RATE_LIMIT_REDIS_PREFIX: z.string().default('rag-agent:ratelimit:'),
+  RATE_LIMIT_KEY_PER_MINUTE: z.string().transform(Number).default('120'),
+  RATE_LIMIT_SESSION_PER_MINUTE: z.string().transform(Number).default('30'),
+  RATE_LIMIT_IP_PER_MINUTE: z.string().transform(Number).default('300'),
+  // Daily quotas per API key (per IP without one), reset at midnight UTC; 0 = unlimited
+  QUOTA_DAILY_REQUESTS: z.string().transform(Number).default('0'),
+  QUOTA_DAILY_LLM_TOKENS: z.string().transform(Number).default('0'),
 
   // Memory config
   MAX_MEMORY_MESSAGES: z.string().transform(Number).default('10'),
   MEMORY_CLEANUP_INTERVAL: z.string().transform(Number).default('3600000'), // 1 hour
+  MEMORY_STORE: z.enum(['memory', 'sqlite', 'redis']).default('memory'),
+  MEMORY_SESSION_TTL: z.string().transform(Number).default('86400'), // seconds idle before a session expires
+  MEMORY_SQLITE_PATH: z.string().default('data/memory.sqlite'),
+  MEMORY_REDIS_PREFIX: z.string().default('rag-agent:session:'),
+  MEMORY_SUMMARIZATION: z.enum(['true', 'false']).default('true').transform(value => value === 'true'),
+  MEMORY_SUMMARY_MAX_TOKENS: z.string().transform(Number).default('300'),
+  MEMORY_PROMPT_TOKEN_BUDGET: z.string().transform(Number).default('1000'),
+
+  // Redis (any Redis-protocol server)
+  REDIS_URL: z.string().default('redis://localhost:6379'),
 
   // RAG config
-  MAX_CHUNK_TOKENS: z.string().transform(Number).default('30'),
-  CHUNK_OVERLAP: z.string().transform(Number).default('5'),
+  MAX_CHUNK_TOKENS: z.string().transform(Number).default('200'),
+  CHUNK_OVERLAP: z.string().transform(Number).default('50'),
   MAX_SEARCH_RESULTS: z.string().transform(Number).default('3'),
+  RAG_RERANKER: z.enum(['none', 'llm', 'lexical']).default('none'),
+  RAG_RERANK_CANDIDATES: z.string().transform(Number).default('20'),
+  RAG_MAX_RERANK_CANDIDATES: z.string().transform(Number).default('50'), // cap on per-request rerankCandidates
+  RAG_HYBRID_ALPHA: z.string().transform(Number).pipe(z.number().min(0).max(1)).default('1'), // 1 = vector only
+  RAG_HYBRID_MIN_SCORE: z.string().transform(Number).pipe(z.number().min(0).max(1)).default('0'), // fused-score cutoff when alpha < 1
+  RAG_MAX_UPLOAD_BYTES: z.string().transform(Number).default('10485760'), // 10 MB
+  RAG_UPLOAD_EXTENSIONS: z.string().default(''), // empty = every format with a loader
+  RAG_MANIFEST_PATH: z.string().default('data/ingest-manifest.json'),
+  RAG_COLLECTIONS_PATH: z.string().default('data/collections.json'),
 
   // LLM config
   LLM_TEMPERATURE: z.string().transform(Number).default('0.7'),
   LLM_MAX_TOKENS: z.string().transform(Number).default('1000'),
+
+  // Agent config
+  AGENT_MAX_TOOL_ITERATIONS: z.string().transform(Number).default('5'),
+  AGENT_STRICT_GROUNDING: z.enum(['off', 'flag', 'drop']).default('off'), // handling of reply sentences that cite no chunk
+  QUERY_REWRITE: z.enum(['true', 'false']).default('true').transform(value => value === 'true'), // standalone rewrite of follow-ups
+  QUERY_EXPANSION: z.enum(['none', 'multi-query', 'hyde']).default('none'),
+  QUERY_EXPANSION_COUNT: z.string().transform(Number).default('3'), // multi-query paraphrases
+
+  // Prompt token budget per agent turn; memory and tool output get shares, retrieved chunks the rest
+  CONTEXT_TOKEN_BUDGET: z.string().transform(Number).default('6000'),
+  CONTEXT_MEMORY_SHARE: z.string().transform(Number).default('0.2'),
+  CONTEXT_TOOL_SHARE: z.string().transform(Number).default('0.2'),
+
+  // Token counting for chunk sizes and prompt budgets: cl100k | o200k (BPE) | heuristic (chars / 4)
+  TOKENIZER: z.enum(['cl100k', 'o200k', 'heuristic']).default('cl100k'),
+
+  // Prompt templates: <PROMPTS_DIR>/<name>/v<version>.md, default selected as "name" (latest) or "name@version"
+  PROMPTS_DIR: z.string().default('prompts'),
+  PROMPT_TEMPLATE: z.string().default('agent'),
+
+  // Plugin config (comma-separated lists)
+  PLUGIN_DIRS: z.string().default(''),
+  PLUGIN_PACKAGES: z.string().default(''),
+  PLUGINS_DISABLED: z.string().default(''),
 });
 
 // Validate and export environment
 const env = EnvironmentSchema.parse(process.env);
 
+function parseList(value: string): string[] {
+  return value.split(',').map(item => item.trim()).filter(Boolean);
+}
+
+// Fastify's trustProxy: true/false, a number of hops, or a list of trusted proxy addresses
+function parseTrustProxy(value: string): boolean | number | string[] {
+  if (value === 'true' || value === 'false') {
+    return value === 'true';
+  }
+  return /^\d+$/.test(value) ? Number(value) : parseList(value);
+}
+
+// Plugin names map onto env var namespaces as upper snake case: "my-plugin" -> PLUGIN_MY_PLUGIN__*
+function pluginNamespace(name: string): string {
+  return name.toUpperCase().replace(/[^A-Z0-9]+/g, '_');
+}
+
+// Collect PLUGIN_<NAME>__<KEY>=value into { NAME: { key: value } }, with keys camelCased
+function parsePluginSettings(source: NodeJS.ProcessEnv): Record<string, Record<string, string>> {
+  const settings: Record<string, Record<string, string>> = {};
+
+  for (const [key, value] of Object.entries(source)) {
+    const match = key.match(/^PLUGIN_([A-Z0-9_]+?)__([A-Z0-9_]+)$/);
+    if (!match || value === undefined) continue;
+
+    const [, namespace = '', settingKey = ''] = match;
+    const camelKey = settingKey.toLowerCase().replace(/_([a-z0-9])/g, (_, char: string) => char.toUpperCase());
+    settings[namespace] = { ...settings[namespace], [camelKey]: value };
+  }
+
+  return settings;
+}
+
+const pluginSettings = parsePluginSettings(process.env);
+
+export function getPluginSettings(name: string): Record<string, string> {
+  return pluginSettings[pluginNamespace(name)] || {};
+}
+
 export const config = {
   env: env.NODE_ENV,
   port: env.PORT,
 
   gemini: {
     apiKey: env.GEMINI_API_KEY || env.GOOGLE_AI_API_KEY,
+    model: env.GEMINI_MODEL,
+    embeddingModel: env.GEMINI_EMBEDDING_MODEL,
+  },
+
+  openai: {
+    baseUrl: env.OPENAI_BASE_URL.replace(/\/+$/, ''),
+    apiKey: env.OPENAI_API_KEY,
+    model: env.OPENAI_MODEL,
+    embeddingModel: env.OPENAI_EMBEDDING_MODEL,
+    timeoutMs: env.OPENAI_TIMEOUT_MS,
+    streamIdleTimeoutMs: env.OPENAI_STREAM_IDLE_TIMEOUT_MS,
   },
 
   weather: {
     apiKey: env.OPENWEATHER_API_KEY,
   },
 
+  embeddings: {
+    provider: env.EMBEDDING_PROVIDER,
+    dimensions: env.EMBEDDING_DIMENSIONS,
+    cache: {
+      enabled: env.EMBEDDING_CACHE,
+      path: env.EMBEDDING_CACHE_PATH,
+      maxEntries: env.EMBEDDING_CACHE_MAX_ENTRIES,
+    },
+  },
+
+  vectorStore: {
+    provider: env.VECTOR_STORE,
+    path: env.VECTOR_STORE_PATH,
+  },
+
   weaviate: {
     url: env.WEAVIATE_URL,
     apiKey: env.WEAVIATE_API_KEY,
+    vectorizer: env.WEAVIATE_VECTORIZER,
   },
 
   server: {
     corsOrigin: env.CORS_ORIGIN,
     logLevel: env.LOG_LEVEL,
+    trustProxy: parseTrustProxy(env.TRUST_PROXY),
+  },
+
+  auth: {
+    enabled: env.AUTH_ENABLED,
+    keysPath: env.AUTH_KEYS_PATH,
+    bootstrapKey: env.AUTH_BOOTSTRAP_KEY || undefined,
+  },
+
+  rateLimit: {
+    enabled: env.RATE_LIMIT_ENABLED,
+    store: env.RATE_LIMIT_STORE,
+    redisKeyPrefix: env.RATE_LIMIT_REDIS_PREFIX,
+    keyPerMinute: env.RATE_LIMIT_KEY_PER_MINUTE,
+    sessionPerMinute: env.RATE_LIMIT_SESSION_PER_MINUTE,
+    ipPerMinute: env.RATE_LIMIT_IP_PER_MINUTE,
+    dailyRequests: env.QUOTA_DAILY_REQUESTS,
+    dailyLlmTokens: env.QUOTA_DAILY_LLM_TOKENS,
   },
 
   memory: {
     maxMessages: env.MAX_MEMORY_MESSAGES,
     cleanupInterval: env.MEMORY_CLEANUP_INTERVAL,
+    store: env.MEMORY_STORE,
+    sessionTtl: env.MEMORY_SESSION_TTL,
+    sqlitePath: env.MEMORY_SQLITE_PATH,
+    redisKeyPrefix: env.MEMORY_REDIS_PREFIX,
+    summarization: env.MEMORY_SUMMARIZATION,
+    summaryMaxTokens: env.MEMORY_SUMMARY_MAX_TOKENS,
+    promptTokenBudget: env.MEMORY_PROMPT_TOKEN_BUDGET,
+  },
+
+  redis: {
+    url: env.REDIS_URL,
   },
 
   rag: {
     maxChunkTokens: env.MAX_CHUNK_TOKENS,
     chunkOverlap: env.CHUNK_OVERLAP,
     maxSearchResults: env.MAX_SEARCH_RESULTS,
+    hybridAlpha: env.RAG_HYBRID_ALPHA,
+    hybridMinScore: env.RAG_HYBRID_MIN_SCORE,
+    reranker: env.RAG_RERANKER,
+    rerankCandidates: env.RAG_RERANK_CANDIDATES,
+    maxRerankCandidates: env.RAG_MAX_RERANK_CANDIDATES,
+    maxUploadBytes: env.RAG_MAX_UPLOAD_BYTES,
+    uploadExtensions: parseList(env.RAG_UPLOAD_EXTENSIONS.toLowerCase()),
+    manifestPath: env.RAG_MANIFEST_PATH,
+    collectionsPath: env.RAG_COLLECTIONS_PATH,
   },
 
   llm: {
+    provider: env.LLM_PROVIDER,
     temperature: env.LLM_TEMPERATURE,
     maxTokens: env.LLM_MAX_TOKENS,
   },
+
+  agent: {
+    maxToolIterations: env.AGENT_MAX_TOOL_ITERATIONS,
+    strictGrounding: env.AGENT_STRICT_GROUNDING,
+    queryRewrite: env.QUERY_REWRITE,
+    queryExpansion: env.QUERY_EXPANSION,
+    queryExpansionCount: env.QUERY_EXPANSION_COUNT,
+  },
+
+  context: {
+    tokenBudget: env.CONTEXT_TOKEN_BUDGET,
+    memoryShare: env.CONTEXT_MEMORY_SHARE,
+    toolShare: env.CONTEXT_TOOL_SHARE,
+  },
+
+  tokenizer: {
+    name: env.TOKENIZER,
+  },
+
+  prompts: {
+    dir: env.PROMPTS_DIR,
+    template: env.PROMPT_TEMPLATE,
+  },
+
+  plugins: {
+    dirs: parseList(env.PLUGIN_DIRS),
+    packages: parseList(env.PLUGIN_PACKAGES),
+    disabled: parseList(env.PLUGINS_DISABLED),
+  },
 } as const;
 
 export type Config = typeof config;
\ No newline at end of file
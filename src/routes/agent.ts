@@ -1,19 +1,85 @@
-import { FastifyInstance } from 'fastify';
-import { AgentRequestSchema, AgentResponseSchema } from '@/types/agent';
+import { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
+import { AgentMessageOptions, AgentRequest, AgentRequestSchema, AgentResponseSchema } from '@/types/agent';
 import { MemoryService } from '@/services/memory';
 import { StreamingRAGService } from '@/services/rag-streaming';
 import { AgentService } from '@/services/agent-clean';
+import { PluginManager } from '@/services/plugin-manager';
+import { PromptRegistry } from '@/services/prompts';
+import { ApiKeyService } from '@/services/api-keys';
+import { RateLimiter } from '@/services/rate-limiter';
+import { ILLMService } from '@/types/llm';
 import { sendAgentError, handleValidationError } from '@/utils/error-handler';
+import { requireScope } from '@/utils/auth';
+import { chargeLLMTokens, rateLimit } from '@/utils/rate-limit';
+import { openSSEStream, writeSSEEvent, closeSSEStream } from '@/utils/sse';
 
 export async function agentRoutes(fastify: FastifyInstance, opts: {
   memoryService: MemoryService;
   ragService: StreamingRAGService;
+  llmService: ILLMService;
+  pluginManager: PluginManager;
+  promptRegistry: PromptRegistry;
+  apiKeys: ApiKeyService;
+  rateLimiter: RateLimiter;
 }) {
+  const canList = { preHandler: [requireScope(opts.apiKeys, 'agent:chat'), rateLimit(opts.rateLimiter)] };
+  // Message routes spend LLM tokens, so they are also held to the daily token quota
+  const canChat = { preHandler: [requireScope(opts.apiKeys, 'agent:chat'), rateLimit(opts.rateLimiter, { llmTokens: true })] };
+
+  // One agent per server; the LLM provider and plugins are injected rather than constructed here
+  const agentService = new AgentService(
+    opts.memoryService,
+    opts.ragService,
+    opts.llmService,
+    opts.pluginManager,
+    opts.promptRegistry
+  );
+  await agentService.initialize();
+
+  // Options for a validated request; null (after a 404) if it names an unknown collection or prompt
+  const messageOptions = (request: FastifyRequest, body: AgentRequest, reply: FastifyReply): AgentMessageOptions | null => {
+    const { session_id, filters, collections, strict_grounding, query_expansion, prompt } = body;
+    const missing = (collections || []).filter(name => !opts.ragService.hasCollection(name));
+
+    if (missing.length > 0) {
+      sendAgentError(reply, 404, `Collection not found: ${missing.join(', ')}`, session_id);
+      return null;
+    }
+
+    if (prompt && !opts.promptRegistry.has(prompt)) {
+      sendAgentError(reply, 404, `Prompt template not found: ${prompt}`, session_id);
+      return null;
+    }
+
+    return {
+      ...(filters && { filters }),
+      ...(collections && { collections }),
+      ...(strict_grounding && { strictGrounding: strict_grounding }),
+      ...(query_expansion && { queryExpansion: query_expansion }),
+      ...(prompt && { prompt }),
+      // Sessions belong to the key that started them; another key with the same session_id gets its own memory
+      ...(request.apiKey && { owner: request.apiKey.id }),
+    };
+  };
+
+  // List prompt templates and their versions
+  fastify.get('/agent/prompts', canList, async (_request, reply) => {
+    const templates = opts.promptRegistry.list();
+
+    reply.send({
+      success: true,
+      default: opts.promptRegistry.defaultTemplate,
+      templates,
+      count: templates.length,
+      timestamp: new Date().toISOString(),
+    });
+  });
+
   // Agent message endpoint
   fastify.post<{
     Body: typeof AgentRequestSchema._type;
     Reply: typeof AgentResponseSchema._type;
-  }>('/agent/message', async (request, reply) => {
+  }>('/agent/message', canChat, async (request, reply) => {
     // Manual validation
     const validation = AgentRequestSchema.safeParse(request.body);
     if (!validation.success) {
@@ -21,16 +87,14 @@ export async function agentRoutes(fastify: FastifyInstance, opts: {
     }
 
     const { session_id, message } = validation.data;
+    const options = messageOptions(request, validation.data, reply);
+    if (!options) return;
 
     try {
-      // Create agent service with full capabilities
-      const agentService = new AgentService(opts.memoryService, opts.ragService);
-
-      // Initialize the agent service
-      await agentService.initialize();
-
       // Process message with full agent functionality
-      const response = await agentService.processMessage(session_id, message);
+      const response = await chargeLLMTokens(opts.rateLimiter, request, () =>
+        agentService.processMessage(session_id, message, options)
+      );
 
       reply.send(response);
     } catch (error) {
@@ -38,4 +102,46 @@ export async function agentRoutes(fastify: FastifyInstance, opts: {
       return sendAgentError(reply, 500, 'Sorry, I encountered an error processing your message.', session_id);
     }
   });
+
+  // Streaming agent endpoint (Server-Sent Events)
+  fastify.post<{
+    Body: typeof AgentRequestSchema._type;
+  }>('/agent/message/stream', canChat, async (request, reply) => {
+    const validation = AgentRequestSchema.safeParse(request.body);
+    if (!validation.success) {
+      return handleValidationError(reply, validation, request.body?.session_id);
+    }
+
+    const { session_id, message } = validation.data;
+    const options = messageOptions(request, validation.data, reply);
+    if (!options) return;
+
+    // Stop generating once the client goes away
+    let clientClosed = false;
+    reply.raw.on('close', () => {
+      clientClosed = true;
+    });
+
+    openSSEStream(reply);
+
+    try {
+      // Completions are charged as they finish, so a client that leaves mid-reply still pays for it
+      await chargeLLMTokens(opts.rateLimiter, request, async () => {
+        for await (const event of agentService.processMessageStream(session_id, message, options)) {
+          if (clientClosed) break;
+          writeSSEEvent(reply, event.type, event.data);
+        }
+      });
+    } catch (error) {
+      fastify.log.error('Agent stream processing failed:', error);
+      if (!clientClosed) {
+        writeSSEEvent(reply, 'error', {
+          message: 'Sorry, I encountered an error processing your message.',
+          session_id,
+        });
+      }
+    } finally {
+      closeSSEStream(reply);
+    }
+  });
 }
\ No newline at end of file
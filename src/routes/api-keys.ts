@@ -0,0 +1,115 @@
+import { FastifyInstance, FastifyReply } from 'fastify';
+import { z } from 'zod';
+import { ApiKeyService } from '@/services/api-keys';
+import { RateLimiter } from '@/services/rate-limiter';
+import { ApiKeyCreateSchema } from '@/types/auth';
+import { requireAuthEnabled, requireScope } from '@/utils/auth';
+import { rateLimit } from '@/utils/rate-limit';
+
+const API_KEY_ERROR_STATUS: Record<string, number> = {
+  API_KEY_NOT_FOUND: 404,
+  API_KEY_REVOKED: 409,
+};
+
+function formatIssues(error: z.ZodError): string[] {
+  return error.issues.map(issue => `${issue.path.join('.') || 'body'}: ${issue.message}`);
+}
+
+// Map the service's tagged errors to a status; false if the error isn't one of them
+function sendApiKeyError(reply: FastifyReply, error: unknown): boolean {
+  const status = API_KEY_ERROR_STATUS[(error as { code?: string }).code || ''];
+  if (!status) {
+    return false;
+  }
+
+  reply.status(status).send({
+    success: false,
+    error: (error as Error).message,
+  });
+  return true;
+}
+
+export async function apiKeyRoutes(fastify: FastifyInstance, opts: { apiKeys: ApiKeyService; rateLimiter: RateLimiter }) {
+  const isAdmin = { preHandler: [requireAuthEnabled(), requireScope(opts.apiKeys, 'admin'), rateLimit(opts.rateLimiter)] };
+
+  // List keys (never their secrets), revoked ones included
+  fastify.get('/admin/api-keys', isAdmin, async (_request, reply) => {
+    const apiKeys = opts.apiKeys.list();
+
+    reply.send({
+      success: true,
+      api_keys: apiKeys,
+      count: apiKeys.length,
+      timestamp: new Date().toISOString(),
+    });
+  });
+
+  // Issue a key; the response is the only time its secret is shown
+  fastify.post<{ Body: unknown }>('/admin/api-keys', isAdmin, async (request, reply) => {
+    const validation = ApiKeyCreateSchema.safeParse(request.body);
+    if (!validation.success) {
+      return reply.status(400).send({
+        success: false,
+        error: 'Invalid API key',
+        details: formatIssues(validation.error),
+      });
+    }
+
+    const { key, apiKey } = opts.apiKeys.create(validation.data.name, validation.data.scopes);
+    fastify.log.info(`API key ${apiKey.id} created by ${request.apiKey?.id ?? 'anonymous'}`);
+
+    reply.status(201).send({
+      success: true,
+      key,
+      api_key: apiKey,
+      timestamp: new Date().toISOString(),
+    });
+  });
+
+  // Replace a key's secret; the old one stops working immediately
+  fastify.post<{ Params: { id: string } }>('/admin/api-keys/:id/rotate', isAdmin, async (request, reply) => {
+    try {
+      const { key, apiKey } = opts.apiKeys.rotate(request.params.id);
+      fastify.log.info(`API key ${apiKey.id} rotated by ${request.apiKey?.id ?? 'anonymous'}`);
+
+      reply.send({
+        success: true,
+        key,
+        api_key: apiKey,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      if (sendApiKeyError(reply, error)) return;
+
+      fastify.log.error('Failed to rotate API key:', error);
+      reply.status(500).send({
+        success: false,
+        error: 'Failed to rotate API key',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  });
+
+  // Revoke a key; it stays listed with its revocation time
+  fastify.delete<{ Params: { id: string } }>('/admin/api-keys/:id', isAdmin, async (request, reply) => {
+    try {
+      const apiKey = opts.apiKeys.revoke(request.params.id);
+      fastify.log.info(`API key ${apiKey.id} revoked by ${request.apiKey?.id ?? 'anonymous'}`);
+
+      reply.send({
+        success: true,
+        api_key: apiKey,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      if (sendApiKeyError(reply, error)) return;
+
+      fastify.log.error('Failed to revoke API key:', error);
+      reply.status(500).send({
+        success: false,
+        error: 'Failed to revoke API key',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  });
+}
@@ -7,8 +7,9 @@ export async function healthRoutes(fastify: FastifyInstance, opts: { memoryServi
   // Health check endpoint
   fastify.get<{ Reply: HealthResponse }>('/health', async (_request, reply) => {
     try {
-      const memoryStats = opts.memoryService.getStats();
-      const memoryStatus: 'ok' | 'error' = memoryStats.totalSessions >= 0 ? 'ok' : 'error';
+      const memoryStatus: 'ok' | 'error' = await opts.memoryService.getStats()
+        .then(stats => stats.totalSessions >= 0 ? 'ok' as const : 'error' as const)
+        .catch(() => 'error' as const);
 
       const response: HealthResponse = {
         status: 'ok',
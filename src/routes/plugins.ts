@@ -0,0 +1,54 @@
+import { FastifyInstance, FastifyReply } from 'fastify';
+import { PluginManager } from '@/services/plugin-manager';
+import { ApiKeyService } from '@/services/api-keys';
+import { RateLimiter } from '@/services/rate-limiter';
+import { requireScope } from '@/utils/auth';
+import { rateLimit } from '@/utils/rate-limit';
+
+export async function pluginRoutes(fastify: FastifyInstance, opts: {
+  pluginManager: PluginManager;
+  apiKeys: ApiKeyService;
+  rateLimiter: RateLimiter;
+}) {
+  const canChat = { preHandler: [requireScope(opts.apiKeys, 'agent:chat'), rateLimit(opts.rateLimiter)] };
+  const isAdmin = { preHandler: [requireScope(opts.apiKeys, 'admin'), rateLimit(opts.rateLimiter)] };
+
+  const setEnabled = (reply: FastifyReply, name: string, enabled: boolean) => {
+    if (!opts.pluginManager.setPluginEnabled(name, enabled)) {
+      return reply.status(404).send({
+        success: false,
+        error: `Plugin '${name}' not found`,
+      });
+    }
+
+    fastify.log.info(`Plugin ${name} ${enabled ? 'enabled' : 'disabled'}`);
+
+    return reply.send({
+      success: true,
+      message: `Plugin '${name}' ${enabled ? 'enabled' : 'disabled'}`,
+      timestamp: new Date().toISOString(),
+    });
+  };
+
+  // List registered plugins with their schemas
+  fastify.get('/plugins', canChat, async (_request, reply) => {
+    const plugins = opts.pluginManager.listPlugins();
+
+    reply.send({
+      success: true,
+      plugins,
+      count: plugins.length,
+      timestamp: new Date().toISOString(),
+    });
+  });
+
+  // Enable a plugin at runtime
+  fastify.post<{ Params: { name: string } }>('/plugins/:name/enable', isAdmin, async (request, reply) => {
+    return setEnabled(reply, request.params.name, true);
+  });
+
+  // Disable a plugin at runtime (it is no longer offered to the model as a tool)
+  fastify.post<{ Params: { name: string } }>('/plugins/:name/disable', isAdmin, async (request, reply) => {
+    return setEnabled(reply, request.params.name, false);
+  });
+}
\ No newline at end of file
@@ -1,37 +1,436 @@
-import { FastifyInstance } from 'fastify';
+import { FastifyInstance, FastifyReply } from 'fastify';
+import path from 'path';
+import { z } from 'zod';
+import { config } from '@/config';
+import { getLoader, getSupportedExtensions } from '@/services/loaders';
 import { StreamingRAGService } from '@/services/rag-streaming';
+import { DEFAULT_COLLECTION } from '@/services/collections';
+import { ApiKeyService } from '@/services/api-keys';
+import { RateLimiter } from '@/services/rate-limiter';
+import {
+  ChunkMetadata,
+  ChunkMetadataSchema,
+  CollectionCreateSchema,
+  CollectionNameSchema,
+  CollectionUpdateSchema,
+  MetadataFilterSchema,
+  RerankerName
+} from '@/types/rag';
+import { requireScope } from '@/utils/auth';
+import { chargeLLMTokens, checkTokenQuota, rateLimit } from '@/utils/rate-limit';
 
-export async function ragRoutes(fastify: FastifyInstance, opts: { ragService: StreamingRAGService }) {
-  // Process and index documents
-  fastify.post('/rag/process', async (_request, reply) => {
+const RERANKERS: RerankerName[] = ['none', 'llm', 'lexical'];
+
+// Numeric /rag/search options; rerankCandidates has no upper bound here because the search clamps it to RAG_MAX_RERANK_CANDIDATES
+const SearchLimitsSchema = z.object({
+  maxResults: z.number().int().min(1).max(100).optional(),
+  similarityThreshold: z.number().min(0).max(1).optional(),
+  rerankCandidates: z.number().int().min(1).optional(),
+});
+
+// Document, process and clear routes exist for the default collection and for each named one
+const COLLECTION_PREFIXES = ['/rag', '/rag/collections/:collection'];
+
+const COLLECTION_ERROR_STATUS: Record<string, number> = {
+  COLLECTION_NOT_FOUND: 404,
+  COLLECTION_EXISTS: 409,
+  COLLECTION_PROTECTED: 409,
+};
+
+type CollectionParams = { collection?: string };
+
+function formatIssues(error: z.ZodError, field: string): string[] {
+  return error.issues.map(issue => `${issue.path.join('.') || field}: ${issue.message}`);
+}
+
+// Map the registry's tagged errors to a status; false if the error isn't one of them
+function sendCollectionError(reply: FastifyReply, error: unknown): boolean {
+  const status = COLLECTION_ERROR_STATUS[(error as { code?: string }).code || ''];
+  if (!status) {
+    return false;
+  }
+
+  reply.status(status).send({
+    success: false,
+    error: (error as Error).message,
+  });
+  return true;
+}
+
+export async function ragRoutes(fastify: FastifyInstance, opts: {
+  ragService: StreamingRAGService;
+  apiKeys: ApiKeyService;
+  rateLimiter: RateLimiter;
+}) {
+  const canRead = { preHandler: [requireScope(opts.apiKeys, 'rag:read'), rateLimit(opts.rateLimiter)] };
+  const canWrite = { preHandler: [requireScope(opts.apiKeys, 'rag:write'), rateLimit(opts.rateLimiter)] };
+
+  // Collection named in the URL (default when absent); replies 404 and returns null if it doesn't exist
+  const resolveCollection = (params: CollectionParams, reply: FastifyReply): string | null => {
+    const collection = params.collection ?? DEFAULT_COLLECTION;
+
+    if (!opts.ragService.hasCollection(collection)) {
+      reply.status(404).send({
+        success: false,
+        error: `Collection not found: ${collection}`,
+      });
+      return null;
+    }
+
+    return collection;
+  };
+
+  // List collections with document and chunk counts
+  fastify.get('/rag/collections', canRead, async (_request, reply) => {
     try {
-      await opts.ragService.processAndIndexDocuments();
+      const collections = await opts.ragService.listCollections();
 
       reply.send({
         success: true,
-        message: 'Documents processed and indexed successfully',
+        collections,
+        count: collections.length,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      fastify.log.error('Failed to list collections:', error);
+      reply.status(500).send({
+        success: false,
+        error: 'Failed to list collections',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  });
+
+  // Create a collection (its index is created immediately)
+  fastify.post<{ Body: unknown }>('/rag/collections', canWrite, async (request, reply) => {
+    const validation = CollectionCreateSchema.safeParse(request.body);
+    if (!validation.success) {
+      return reply.status(400).send({
+        success: false,
+        error: 'Invalid collection',
+        details: formatIssues(validation.error, 'body'),
+      });
+    }
+
+    try {
+      const { name, description } = validation.data;
+      const collection = await opts.ragService.createCollection(name, description);
+
+      reply.status(201).send({
+        success: true,
+        collection,
         timestamp: new Date().toISOString(),
       });
     } catch (error) {
-      fastify.log.error('Failed to process documents:', error);
+      if (sendCollectionError(reply, error)) return;
+
+      fastify.log.error('Failed to create collection:', error);
       reply.status(500).send({
         success: false,
-        error: 'Failed to process documents',
+        error: 'Failed to create collection',
         message: error instanceof Error ? error.message : 'Unknown error',
       });
     }
   });
 
+  fastify.get<{ Params: { collection: string } }>('/rag/collections/:collection', canRead, async (request, reply) => {
+    try {
+      const collection = await opts.ragService.getCollection(request.params.collection);
+
+      if (!collection) {
+        return reply.status(404).send({
+          success: false,
+          error: `Collection not found: ${request.params.collection}`,
+        });
+      }
+
+      reply.send({
+        success: true,
+        collection,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      fastify.log.error('Failed to get collection:', error);
+      reply.status(500).send({
+        success: false,
+        error: 'Failed to get collection',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  });
+
+  // Update a collection's description
+  fastify.patch<{
+    Params: { collection: string };
+    Body: unknown;
+  }>('/rag/collections/:collection', canWrite, async (request, reply) => {
+    const validation = CollectionUpdateSchema.safeParse(request.body);
+    if (!validation.success) {
+      return reply.status(400).send({
+        success: false,
+        error: 'Invalid collection update',
+        details: formatIssues(validation.error, 'body'),
+      });
+    }
+
+    try {
+      const collection = await opts.ragService.updateCollection(request.params.collection, validation.data.description);
+
+      reply.send({
+        success: true,
+        collection,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      if (sendCollectionError(reply, error)) return;
+
+      fastify.log.error('Failed to update collection:', error);
+      reply.status(500).send({
+        success: false,
+        error: 'Failed to update collection',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  });
+
+  // Delete a collection and every document in it
+  fastify.delete<{ Params: { collection: string } }>('/rag/collections/:collection', canWrite, async (request, reply) => {
+    try {
+      const { collection } = request.params;
+      await opts.ragService.deleteCollection(collection);
+
+      reply.send({
+        success: true,
+        collection,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      if (sendCollectionError(reply, error)) return;
+
+      fastify.log.error('Failed to delete collection:', error);
+      reply.status(500).send({
+        success: false,
+        error: 'Failed to delete collection',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  });
+
+  // Per-collection routes: bare /rag/... targets the default collection
+  for (const prefix of COLLECTION_PREFIXES) {
+    // Process and index documents (data/documents, or data/documents/<collection>)
+    fastify.post<{ Params: CollectionParams }>(`${prefix}/process`, canWrite, async (request, reply) => {
+      const collection = resolveCollection(request.params, reply);
+      if (!collection) return;
+
+      try {
+        const report = await opts.ragService.processAndIndexDocuments(collection);
+
+        reply.send({
+          success: report.failed.length === 0,
+          collection,
+          message: report.failed.length === 0
+            ? 'Documents processed and indexed successfully'
+            : `${report.failed.length} document(s) failed to index`,
+          report,
+          timestamp: new Date().toISOString(),
+        });
+      } catch (error) {
+        fastify.log.error('Failed to process documents:', error);
+        reply.status(500).send({
+          success: false,
+          error: 'Failed to process documents',
+          message: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    });
+
+    // Upload and index a single document (multipart field: file)
+    fastify.post<{ Params: CollectionParams }>(`${prefix}/documents`, canWrite, async (request, reply) => {
+      const collection = resolveCollection(request.params, reply);
+      if (!collection) return;
+
+      try {
+        const file = await request.file();
+
+        if (!file) {
+          return reply.status(400).send({
+            success: false,
+            error: 'A file upload is required',
+          });
+        }
+
+        const fileName = path.basename(file.filename);
+        const extension = path.extname(fileName).toLowerCase();
+        const allowlist = config.rag.uploadExtensions;
+
+        // Any format with a registered loader, optionally narrowed by RAG_UPLOAD_EXTENSIONS
+        if (!getLoader(fileName, file.mimetype) || (allowlist.length > 0 && !allowlist.includes(extension))) {
+          return reply.status(415).send({
+            success: false,
+            error: `Unsupported file type: ${extension || file.mimetype}`,
+            supported: allowlist.length > 0 ? allowlist : getSupportedExtensions(),
+          });
+        }
+
+        // Optional JSON `metadata` field; multipart only exposes fields sent before the file
+        const metadataField = file.fields['metadata'];
+        let metadata: ChunkMetadata = {};
+
+        if (metadataField && !Array.isArray(metadataField) && metadataField.type === 'field') {
+          let parsed: unknown;
+          try {
+            parsed = JSON.parse(String(metadataField.value));
+          } catch {
+            parsed = undefined;
+          }
+
+          const validation = ChunkMetadataSchema.safeParse(parsed);
+          if (!validation.success) {
+            return reply.status(400).send({
+              success: false,
+              error: 'metadata must be a JSON object of string, number, boolean or array values',
+              details: formatIssues(validation.error, 'metadata'),
+            });
+          }
+          metadata = validation.data;
+        }
+
+        const data = await file.toBuffer();
+        const result = await opts.ragService.indexDocument(fileName, data, file.mimetype, metadata, collection);
+
+        reply.status(201).send({
+          success: true,
+          document: result,
+          timestamp: new Date().toISOString(),
+        });
+      } catch (error) {
+        if ((error as { code?: string }).code === 'FST_REQ_FILE_TOO_LARGE') {
+          return reply.status(413).send({
+            success: false,
+            error: `File exceeds the ${config.rag.maxUploadBytes} byte upload limit`,
+          });
+        }
+
+        if ((error as { code?: string }).code === 'DOCUMENT_UNREADABLE') {
+          return reply.status(422).send({
+            success: false,
+            error: (error as Error).message,
+          });
+        }
+
+        fastify.log.error('Failed to upload document:', error);
+        reply.status(500).send({
+          success: false,
+          error: 'Failed to upload document',
+          message: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    });
+
+    // List indexed documents with chunk counts
+    fastify.get<{ Params: CollectionParams }>(`${prefix}/documents`, canRead, async (request, reply) => {
+      const collection = resolveCollection(request.params, reply);
+      if (!collection) return;
+
+      try {
+        const documents = await opts.ragService.listDocuments(collection);
+
+        reply.send({
+          success: true,
+          collection,
+          documents,
+          count: documents.length,
+          timestamp: new Date().toISOString(),
+        });
+      } catch (error) {
+        fastify.log.error('Failed to list documents:', error);
+        reply.status(500).send({
+          success: false,
+          error: 'Failed to list documents',
+          message: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    });
+
+    // Remove one document's chunks from the index
+    fastify.delete<{
+      Params: CollectionParams & { source: string };
+    }>(`${prefix}/documents/:source`, canWrite, async (request, reply) => {
+      const collection = resolveCollection(request.params, reply);
+      if (!collection) return;
+
+      try {
+        const { source } = request.params;
+        const deleted = await opts.ragService.deleteDocument(source, collection);
+
+        if (deleted === 0) {
+          return reply.status(404).send({
+            success: false,
+            error: `Document not found: ${source}`,
+          });
+        }
+
+        reply.send({
+          success: true,
+          collection,
+          source,
+          deletedChunks: deleted,
+          timestamp: new Date().toISOString(),
+        });
+      } catch (error) {
+        fastify.log.error('Failed to delete document:', error);
+        reply.status(500).send({
+          success: false,
+          error: 'Failed to delete document',
+          message: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    });
+
+    // Clear a collection's index (the collection itself is kept)
+    fastify.delete<{ Params: CollectionParams }>(`${prefix}/clear`, canWrite, async (request, reply) => {
+      const collection = resolveCollection(request.params, reply);
+      if (!collection) return;
+
+      try {
+        await opts.ragService.clearIndex(collection);
+
+        reply.send({
+          success: true,
+          collection,
+          message: 'Index cleared successfully',
+          timestamp: new Date().toISOString(),
+        });
+      } catch (error) {
+        fastify.log.error('Failed to clear index:', error);
+        reply.status(500).send({
+          success: false,
+          error: 'Failed to clear index',
+          message: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    });
+  }
+
   // Search documents
   fastify.post<{
     Body: {
       query: string;
       maxResults?: number;
       similarityThreshold?: number;
+      minFusedScore?: number;
+      alpha?: number;
+      rerank?: RerankerName;
+      rerankCandidates?: number;
+      filters?: unknown;
+      collections?: unknown;
     };
-  }>('/rag/search', async (request, reply) => {
+  }>('/rag/search', canRead, async (request, reply) => {
     try {
-      const { query, maxResults, similarityThreshold } = request.body;
+      const {
+        query, maxResults, similarityThreshold, minFusedScore, alpha, rerank, rerankCandidates, filters, collections,
+      } = request.body;
 
       if (!query || typeof query !== 'string') {
         return reply.status(400).send({
@@ -40,14 +439,83 @@ export async function ragRoutes(fastify: FastifyInstance, opts: { ragService: St
         });
       }
 
-      const results = await opts.ragService.search(query, {
-        maxSearchResults: maxResults || 3,
-        similarityThreshold: similarityThreshold || 0.7,
-      });
+      if (alpha !== undefined && (typeof alpha !== 'number' || alpha < 0 || alpha > 1)) {
+        return reply.status(400).send({
+          success: false,
+          error: 'alpha must be a number between 0 (BM25 only) and 1 (vector only)',
+        });
+      }
+
+      if (minFusedScore !== undefined && (typeof minFusedScore !== 'number' || minFusedScore < 0 || minFusedScore > 1)) {
+        return reply.status(400).send({
+          success: false,
+          error: 'minFusedScore must be a number between 0 and 1',
+        });
+      }
+
+      if (rerank !== undefined && !RERANKERS.includes(rerank)) {
+        return reply.status(400).send({
+          success: false,
+          error: `rerank must be one of: ${RERANKERS.join(', ')}`,
+        });
+      }
+
+      const limitsValidation = SearchLimitsSchema.safeParse({ maxResults, similarityThreshold, rerankCandidates });
+      if (!limitsValidation.success) {
+        return reply.status(400).send({
+          success: false,
+          error: 'Invalid search options',
+          details: formatIssues(limitsValidation.error, 'body'),
+        });
+      }
+
+      const filterValidation = filters === undefined ? null : MetadataFilterSchema.safeParse(filters);
+      if (filterValidation && !filterValidation.success) {
+        return reply.status(400).send({
+          success: false,
+          error: 'Invalid filters',
+          details: formatIssues(filterValidation.error, 'filters'),
+        });
+      }
+
+      const collectionValidation = z.array(CollectionNameSchema).min(1).safeParse(collections ?? [DEFAULT_COLLECTION]);
+      if (!collectionValidation.success) {
+        return reply.status(400).send({
+          success: false,
+          error: 'collections must be a non-empty list of collection names',
+          details: formatIssues(collectionValidation.error, 'collections'),
+        });
+      }
+
+      const unknownCollections = collectionValidation.data.filter(name => !opts.ragService.hasCollection(name));
+      if (unknownCollections.length > 0) {
+        return reply.status(404).send({
+          success: false,
+          error: `Collection not found: ${unknownCollections.join(', ')}`,
+        });
+      }
+
+      // The LLM reranker spends tokens, so it is held to the daily token quota like the agent
+      const usesLLM = (rerank ?? config.rag.reranker) === 'llm';
+      if (usesLLM && !(await checkTokenQuota(opts.rateLimiter, request, reply))) return;
+
+      const results = await chargeLLMTokens(opts.rateLimiter, request, () => opts.ragService.search(query, {
+        maxSearchResults: maxResults ?? 3,
+        similarityThreshold: similarityThreshold ?? 0.7,
+        ...(minFusedScore !== undefined && { minFusedScore }),
+        ...(alpha !== undefined && { alpha }),
+        ...(rerank !== undefined && { rerank }),
+        ...(rerankCandidates !== undefined && { rerankCandidates }),
+        ...(filterValidation?.success && { filters: filterValidation.data }),
+        collections: collectionValidation.data,
+      }));
 
       reply.send({
         success: true,
         query,
+        alpha: alpha ?? config.rag.hybridAlpha,
+        rerank: rerank ?? config.rag.reranker,
+        collections: collectionValidation.data,
         results,
         count: results.length,
         timestamp: new Date().toISOString(),
@@ -63,7 +531,7 @@ export async function ragRoutes(fastify: FastifyInstance, opts: { ragService: St
   });
 
   // Get RAG stats
-  fastify.get('/rag/stats', async (_request, reply) => {
+  fastify.get('/rag/stats', canRead, async (_request, reply) => {
     try {
       const stats = await opts.ragService.getStats();
 
@@ -83,10 +551,10 @@ export async function ragRoutes(fastify: FastifyInstance, opts: { ragService: St
   });
 
   // Health check for RAG system
-  fastify.get('/rag/health', async (_request, reply) => {
+  fastify.get('/rag/health', canRead, async (_request, reply) => {
     try {
       const health = await opts.ragService.healthCheck();
-      const overallHealth = health.weaviate;
+      const overallHealth = health.vectorStore;
 
       reply.send({
         success: true,
@@ -104,24 +572,4 @@ export async function ragRoutes(fastify: FastifyInstance, opts: { ragService: St
       });
     }
   });
-
-  // Clear index
-  fastify.delete('/rag/clear', async (_request, reply) => {
-    try {
-      await opts.ragService.clearIndex();
-
-      reply.send({
-        success: true,
-        message: 'Index cleared successfully',
-        timestamp: new Date().toISOString(),
-      });
-    } catch (error) {
-      fastify.log.error('Failed to clear index:', error);
-      reply.status(500).send({
-        success: false,
-        error: 'Failed to clear index',
-        message: error instanceof Error ? error.message : 'Unknown error',
-      });
-    }
-  });
-}
\ No newline at end of file
+}
@@ -1,46 +1,136 @@
 import Fastify, { FastifyInstance } from 'fastify';
+import path from 'path';
 import cors from '@fastify/cors';
+import multipart from '@fastify/multipart';
 import { config } from '@/config';
 import { MemoryService } from '@/services/memory';
+import { createMemoryStore } from '@/services/memory-store';
+import { ConversationSummarizer } from '@/services/summarizer';
 import { StreamingRAGService } from '@/services/rag-streaming';
+import { createLLMService } from '@/services/llm';
+import { createVectorStore } from '@/services/vector-store';
+import { createEmbeddingService } from '@/services/embeddings';
+import { CollectionRegistry } from '@/services/collections';
+import { PluginManager } from '@/services/plugin-manager';
+import { PromptRegistry } from '@/services/prompts';
+import { getTokenizer } from '@/services/tokenizers';
+import { ApiKeyService } from '@/services/api-keys';
+import { RateLimiter } from '@/services/rate-limiter';
+import { createRateLimitStore } from '@/services/rate-limit-store';
+import { ILLMService } from '@/types/llm';
+import { IEmbeddingService } from '@/types/rag';
 import { healthRoutes } from '@/routes/health';
 import { agentRoutes } from '@/routes/agent';
 import { ragRoutes } from '@/routes/rag';
+import { pluginRoutes } from '@/routes/plugins';
+import { apiKeyRoutes } from '@/routes/api-keys';
 
 export class Server {
   private fastify: FastifyInstance;
   private memoryService: MemoryService;
   private ragService: StreamingRAGService;
+  private llmService: ILLMService;
+  private embeddingService: IEmbeddingService;
+  private pluginManager: PluginManager;
+  private promptRegistry: PromptRegistry;
+  private apiKeys: ApiKeyService;
+  private rateLimiter: RateLimiter;
 
   constructor() {
-    this.memoryService = new MemoryService();
-    this.ragService = new StreamingRAGService();
+    this.llmService = createLLMService();
+    this.memoryService = new MemoryService(
+      createMemoryStore(),
+      config.memory.summarization ? new ConversationSummarizer(this.llmService) : null
+    );
+    this.embeddingService = createEmbeddingService(this.llmService);
+    this.ragService = new StreamingRAGService(
+      new CollectionRegistry(
+        collection => createVectorStore(this.embeddingService, collection),
+        path.resolve(config.rag.collectionsPath)
+      ),
+      this.llmService,
+      this.embeddingService
+    );
+    this.pluginManager = new PluginManager();
+    this.promptRegistry = new PromptRegistry(path.resolve(config.prompts.dir), config.prompts.template);
+    this.apiKeys = new ApiKeyService(path.resolve(config.auth.keysPath), config.auth.bootstrapKey);
+    this.rateLimiter = new RateLimiter(createRateLimitStore());
 
     this.fastify = Fastify({
       logger: {
         level: config.server.logLevel,
       },
+      // Behind a proxy, request.ip (used for per-IP rate limits) is the client from X-Forwarded-For
+      trustProxy: config.server.trustProxy,
     });
   }
 
   async setup() {
     try {
+      // Connect the session store
+      await this.memoryService.initialize();
+
+      // Initialize LLM provider, then embeddings (which may run through it)
+      await this.llmService.initialize();
+      await this.embeddingService.initialize();
+
+      // Load the tokenizer now rather than on the first upload or message
+      getTokenizer();
+
       // Initialize RAG service
       await this.ragService.initialize();
 
+      // Load built-in and configured plugins
+      await this.pluginManager.loadPlugins();
+
+      // Load and validate prompt templates; a broken template fails startup
+      await this.promptRegistry.initialize();
+
+      // Open the API key store; with auth off every route but key management stays open
+      await this.apiKeys.initialize();
+      if (!config.auth.enabled) {
+        console.warn('⚠️ API key authentication is disabled (AUTH_ENABLED=false): every route is open to anyone who can reach the server, and /admin/api-keys is refused. Set AUTH_ENABLED=true before exposing it');
+      }
+
+      // Connect the rate limit counters
+      await this.rateLimiter.initialize();
+
       // Register CORS
       await this.fastify.register(cors, {
         origin: config.server.corsOrigin,
         credentials: true,
       });
 
+      // Register multipart uploads (one document per request)
+      await this.fastify.register(multipart, {
+        limits: {
+          fileSize: config.rag.maxUploadBytes,
+          files: 1,
+        },
+      });
+
       // Register routes
       await this.fastify.register(healthRoutes, { memoryService: this.memoryService });
       await this.fastify.register(agentRoutes, {
         memoryService: this.memoryService,
-        ragService: this.ragService
+        ragService: this.ragService,
+        llmService: this.llmService,
+        pluginManager: this.pluginManager,
+        promptRegistry: this.promptRegistry,
+        apiKeys: this.apiKeys,
+        rateLimiter: this.rateLimiter,
+      });
+      await this.fastify.register(ragRoutes, {
+        ragService: this.ragService,
+        apiKeys: this.apiKeys,
+        rateLimiter: this.rateLimiter,
+      });
+      await this.fastify.register(pluginRoutes, {
+        pluginManager: this.pluginManager,
+        apiKeys: this.apiKeys,
+        rateLimiter: this.rateLimiter,
       });
-      await this.fastify.register(ragRoutes, { ragService: this.ragService });
+      await this.fastify.register(apiKeyRoutes, { apiKeys: this.apiKeys, rateLimiter: this.rateLimiter });
 
       // Setup graceful shutdown
       this.setupGracefulShutdown();
@@ -55,7 +145,9 @@ export class Server {
   private setupGracefulShutdown() {
     const gracefulShutdown = async (signal: string) => {
       this.fastify.log.info(`Received ${signal}, shutting down gracefully...`);
-      this.memoryService.destroy();
+      await this.memoryService.destroy();
+      await this.apiKeys.close();
+      await this.rateLimiter.close();
       await this.fastify.close();
       process.exit(0);
     };
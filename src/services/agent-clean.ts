@@ -1,71 +1,193 @@
 import { config } from '@/config';
 import { MemoryService } from '@/services/memory';
 import { StreamingRAGService } from '@/services/rag-streaming';
-import { GeminiService } from '@/services/gemini';
 import { PluginManager } from '@/services/plugin-manager';
+import { GroundedReply, groundReply } from '@/services/citations';
+import { QueryTransformer, TransformedQuery } from '@/services/query-transformer';
+import { ContextAssembler } from '@/services/context-assembler';
+import { getTokenizer } from '@/services/tokenizers';
+import { PromptRegistry } from '@/services/prompts';
+import { reciprocalRankFusion } from '@/services/retrieval/fusion';
 import {
+  AgentMessageOptions,
   AgentResponse,
   AgentServiceInterface,
-  AgentError
+  AgentStreamEvent,
+  AgentError,
+  PluginUsage,
+  UsedChunk
 } from '@/types/agent';
 import { PluginResult } from '@/types/plugins';
-import { RAGResult } from '@/types/rag';
+import { RAGResult, VectorSearchResult } from '@/types/rag';
+import { ILLMService, LLMMessage, LLMStreamChunk, LLMToolCall, LLMToolDefinition, PromptContext } from '@/types/llm';
 
 export class AgentService implements AgentServiceInterface {
   private memoryService: MemoryService;
   private ragService: StreamingRAGService;
-  private geminiService: GeminiService;
+  private llmService: ILLMService;
   private pluginManager: PluginManager;
+  private queryTransformer: QueryTransformer;
+  private promptRegistry: PromptRegistry;
 
   constructor(
     memoryService: MemoryService,
-    ragService: StreamingRAGService
+    ragService: StreamingRAGService,
+    llmService: ILLMService,
+    pluginManager: PluginManager,
+    promptRegistry: PromptRegistry
   ) {
     this.memoryService = memoryService;
     this.ragService = ragService;
-    this.geminiService = new GeminiService();
-    this.pluginManager = new PluginManager();
+    this.llmService = llmService;
+    this.pluginManager = pluginManager;
+    this.queryTransformer = new QueryTransformer(llmService);
+    this.promptRegistry = promptRegistry;
   }
 
   async initialize(): Promise<void> {
     try {
-      await this.geminiService.initialize();
-      console.log('✅ Agent service initialized');
+      console.log(`✅ Agent service initialized (LLM provider: ${this.llmService.provider})`);
     } catch (error) {
       console.warn('⚠️ Agent service initialization failed:', error);
     }
   }
 
-  async processMessage(sessionId: string, message: string): Promise<AgentResponse> {
-    try {
-      console.log(`🤖 Processing message for session ${sessionId}: "${message}"`);
-
-      // 1. Add user message to memory
-      await this.memoryService.addMessage(sessionId, 'user', message);
+  async processMessage(sessionId: string, message: string, options: AgentMessageOptions = {}): Promise<AgentResponse> {
+    let response: AgentResponse | undefined;
 
-      // 2. Get memory summary
-      const memorySummary = await this.memoryService.getFormattedSummary(sessionId);
+    for await (const event of this.processMessageStream(sessionId, message, options)) {
+      if (event.type === 'done') {
+        response = event.data;
+      }
+    }
 
-      // 3. Detect and execute plugins
-      const pluginResults = await this.pluginManager.detectAndExecutePlugins(message);
+    if (!response) {
+      throw this.createAgentError('PROCESSING_FAILED', 'Failed to process message', sessionId);
+    }
 
-      // 4. Perform RAG search
-      const ragResults = await this.performRAGSearch(message);
+    return response;
+  }
 
-      // 5. Build the prompt with all context
-      const prompt = this.buildPrompt(message, memorySummary, ragResults, pluginResults);
+  async *processMessageStream(
+    sessionId: string,
+    message: string,
+    options: AgentMessageOptions = {}
+  ): AsyncGenerator<AgentStreamEvent> {
+    try {
+      console.log(`🤖 Processing message for session ${sessionId}: "${message}"`);
+      const memoryKey = options.owner ? `${options.owner}:${sessionId}` : sessionId;
+
+      // 1. Resolve the prompt template; its own text and the message are charged to the token budget first
+      const grounding = options.strictGrounding || config.agent.strictGrounding;
+      const strictGrounding = grounding !== 'off';
+      // `drop` may rewrite the reply, so its text is held back until grounding has run
+      const bufferReply = grounding === 'drop';
+      const promptBuilder = this.promptRegistry.get(options.prompt);
+      const emptyPrompt = promptBuilder.buildFullPrompt(this.buildPromptContext(message, '', '', strictGrounding));
+      const context = new ContextAssembler(
+        getTokenizer(),
+        config.context.tokenBudget,
+        emptyPrompt.messages.map(msg => msg.content).join('\n'),
+        message
+      );
+
+      // 2. Get memory (running summary + recent turns) within its share, before this message joins it
+      const session = await this.memoryService.getMemory(memoryKey);
+      const hasHistory = !!session && (session.messages.length > 0 || !!session.summary);
+      const memorySummary = await this.memoryService.getFormattedSummary(
+        memoryKey,
+        Math.min(config.memory.promptTokenBudget, context.memoryLimit)
+      );
+      context.addMemory(memorySummary);
+
+      // 3. Add user message to memory
+      await this.memoryService.addMessage(memoryKey, 'user', message);
+
+      // 4. Turn the message into standalone (and optionally expanded) queries, search,
+      //    and keep the best-ranked chunks that fit the budget
+      const queries = await this.queryTransformer.transform(
+        message,
+        hasHistory ? memorySummary : null,
+        options.queryExpansion || config.agent.queryExpansion
+      );
+      const ragResults = context.packChunks(
+        await this.performRAGSearch(queries, options),
+        (result, index) => this.formatDocument(result, index)
+      );
+      const usedChunks = ragResults.map((result, index) => this.toUsedChunk(result, index));
+      yield { type: 'chunks', data: usedChunks };
+
+      // 5. Build the prompt from the selected template with memory and numbered document context
+      const documents = ragResults.map((result, index) => this.formatDocument(result, index)).join('\n\n');
+      const conversation: LLMMessage[] = promptBuilder.buildFullPrompt(
+        this.buildPromptContext(message, memorySummary, documents, strictGrounding)
+      ).messages;
+
+      // 6. Tool loop - the model picks plugins and arguments, results go back
+      //    into the conversation until it answers or the iteration limit is hit
+      const tools = this.pluginManager.getToolDefinitions();
+      const pluginResults: PluginResult[] = [];
+      let aiResponse = '';
+
+      for (let iteration = 0; ; iteration++) {
+        // Past the limit, tools are withheld so the model has to answer
+        const allowTools = iteration < config.agent.maxToolIterations;
+        const toolCalls: LLMToolCall[] = [];
+        let turnText = '';
+
+        for await (const chunk of this.streamLLMTurn(conversation, allowTools ? tools : [], message)) {
+          if (chunk.type === 'text') {
+            turnText += chunk.delta;
+            if (!bufferReply) {
+              yield { type: 'token', data: { delta: chunk.delta } };
+            }
+          } else if (chunk.type === 'tool_calls') {
+            toolCalls.push(...chunk.toolCalls);
+          }
+        }
 
-      // 6. Generate AI response
-      const aiResponse = await this.generateAIResponse(prompt, message);
+        aiResponse += turnText;
 
-      // 7. Add assistant response to memory
-      await this.memoryService.addMessage(sessionId, 'assistant', aiResponse);
+        if (toolCalls.length === 0 || !allowTools) {
+          break;
+        }
 
-      // 8. Build final response
-      const response = await this.buildResponse(sessionId, aiResponse, ragResults, pluginResults);
+        conversation.push({ role: 'assistant', content: turnText, toolCalls });
+
+        for (const call of toolCalls) {
+          console.log(`🔧 Model called tool ${call.name} with`, call.arguments);
+          const result = await this.pluginManager.executeTool(call.name, call.arguments);
+          pluginResults.push(result);
+          yield { type: 'plugin', data: this.toPluginUsage(result) };
+
+          conversation.push({
+            role: 'tool',
+            toolCallId: call.id,
+            name: call.name,
+            // Tool output shares the token budget; past it, results are cut or replaced by a notice
+            content: context.fitToolOutput(this.pluginManager.formatForPrompt(result)),
+          });
+        }
+      }
+
+      // 7. Resolve [n] citations and apply strict grounding; memory keeps the final reply
+      const grounded = groundReply(aiResponse, usedChunks, grounding);
+      if (bufferReply && grounded.reply) {
+        yield { type: 'token', data: { delta: grounded.reply } };
+      }
+
+      // 8. Add assistant response to memory
+      await this.memoryService.addMessage(memoryKey, 'assistant', grounded.reply);
+
+      // 9. Build final response
+      const response = await this.buildResponse(sessionId, memoryKey, grounded, usedChunks, pluginResults, {
+        queries,
+        prompt: promptBuilder.ref,
+        context_budget: context.report(),
+      });
 
       console.log(`✅ Agent response generated for session ${sessionId}`);
-      return response;
+      yield { type: 'done', data: response };
 
     } catch (error) {
       console.error('❌ Failed to process message:', error);
@@ -73,47 +195,89 @@ export class AgentService implements AgentServiceInterface {
     }
   }
 
-  private async performRAGSearch(message: string): Promise<RAGResult[]> {
+  private async performRAGSearch(queries: TransformedQuery, options: AgentMessageOptions): Promise<RAGResult[]> {
     try {
-      const searchQuery = this.enhanceSearchQuery(message);
-      const results = await this.ragService.search(searchQuery, {
+      const searchOptions = {
         maxSearchResults: config.rag.maxSearchResults,
+        // Vector search only; hybrid results are cut at RAG_HYBRID_MIN_SCORE
         similarityThreshold: 0.5,
-      });
-
-      return results.map(result => ({
-        content: result.content || '',
-        source: result.source || '',
-        score: result.score || 0,
-        metadata: result.metadata || {},
-      }));
+        ...(options.filters && { filters: options.filters }),
+        ...(options.collections && { collections: options.collections }),
+      };
+      const resultSets = await Promise.all(
+        [queries.standalone, ...queries.variants].map(query => this.ragService.search(query, searchOptions))
+      );
+
+      // Merge the per-query rankings with RRF; each chunk keeps its best score
+      const key = (result: VectorSearchResult) => `${result.collection}:${result.id}`;
+      const fused = reciprocalRankFusion(resultSets.map(results => ({ weight: 1, ids: results.map(key) })));
+      const best = new Map<string, VectorSearchResult>();
+      for (const result of resultSets.flat()) {
+        const existing = best.get(key(result));
+        if (!existing || result.score > existing.score) {
+          best.set(key(result), result);
+        }
+      }
+
+      return [...best.entries()]
+        .sort(([a], [b]) => (fused.get(b) || 0) - (fused.get(a) || 0))
+        .slice(0, config.rag.maxSearchResults)
+        .map(([, result]) => ({
+          id: result.id,
+          content: result.content || '',
+          source: result.source || '',
+          score: result.score || 0,
+          metadata: result.metadata || {},
+        }));
     } catch (error) {
       console.warn('⚠️ RAG search failed, continuing without document context:', error);
       return [];
     }
   }
 
-  private async generateAIResponse(prompt: string, originalMessage: string): Promise<string> {
+  private async *streamLLMTurn(
+    messages: LLMMessage[],
+    tools: LLMToolDefinition[],
+    originalMessage: string
+  ): AsyncGenerator<LLMStreamChunk> {
+    let streamed = false;
+
     try {
-      const llmResponse = await this.geminiService.generateCompletion({
-        messages: [{ role: 'user', content: prompt }],
-        temperature: 0.7,
-        maxTokens: 1000,
+      const stream = this.llmService.generateCompletionStream({
+        messages,
+        temperature: config.llm.temperature,
+        maxTokens: config.llm.maxTokens,
+        ...(tools.length > 0 && { tools }),
       });
-      return llmResponse.content;
+
+      for await (const chunk of stream) {
+        streamed = true;
+        yield chunk;
+      }
     } catch (error) {
+      // Once tokens have reached the client we keep the partial reply rather than appending a fallback
+      if (streamed) {
+        console.warn('⚠️ LLM stream interrupted, returning partial response:', error);
+        return;
+      }
+
       console.warn('⚠️ LLM generation failed, using fallback response:', error);
-      return `I understand you asked: "${originalMessage}". Based on the available context, I can provide some information, but I'm currently experiencing technical difficulties with my AI generation capabilities.`;
+      yield {
+        type: 'text',
+        delta: `I understand you asked: "${originalMessage}". Based on the available context, I can provide some information, but I'm currently experiencing technical difficulties with my AI generation capabilities.`,
+      };
     }
   }
 
   private async buildResponse(
     sessionId: string,
-    aiResponse: string,
-    ragResults: RAGResult[],
-    pluginResults: PluginResult[]
+    memoryKey: string,
+    grounded: GroundedReply,
+    usedChunks: UsedChunk[],
+    pluginResults: PluginResult[],
+    turn: Pick<AgentResponse, 'queries' | 'prompt' | 'context_budget'>
   ): Promise<AgentResponse> {
-    const memory = await this.memoryService.getMemory(sessionId);
+    const memory = await this.memoryService.getMemory(memoryKey);
     const memorySnapshot = memory?.messages?.map(msg => ({
       role: msg.role,
       content: msg.content,
@@ -121,98 +285,58 @@ export class AgentService implements AgentServiceInterface {
     })) || [];
 
     return {
-      reply: aiResponse,
-      used_chunks: ragResults.map(result => ({
-        content: result.content,
-        source: result.source,
-        score: result.score,
-        metadata: result.metadata,
-      })),
-      plugins_used: pluginResults.map(result => ({
-        name: result.name,
-        success: result.success,
-        data: result.data,
-        error: result.error,
-      })),
+      reply: grounded.reply,
+      used_chunks: usedChunks,
+      citations: grounded.citations,
+      ...(grounded.ungrounded && { ungrounded: grounded.ungrounded }),
+      plugins_used: pluginResults.map(result => this.toPluginUsage(result)),
       memory_snapshot: memorySnapshot,
+      ...turn,
       session_id: sessionId,
     };
   }
 
-  private buildPrompt(
-    message: string,
-    memorySummary: string,
-    ragResults: RAGResult[],
-    pluginResults: PluginResult[]
-  ): string {
-    let prompt = `You are a helpful AI assistant with access to conversation memory, document knowledge, and plugin capabilities.
-
-## CONVERSATION MEMORY
-${memorySummary}
-
-## DOCUMENT CONTEXT
-`;
-
-    if (ragResults.length > 0) {
-      prompt += ragResults.map((result, index) =>
-        `${index + 1}. Source: ${result.source}\nContent: ${result.content}\n`
-      ).join('\n');
-    } else {
-      prompt += "No relevant documents found.\n";
-    }
-
-    // Add plugin results to prompt
-    if (pluginResults.length > 0) {
-      prompt += `\n## PLUGIN RESULTS\n`;
-      pluginResults.forEach((result, index) => {
-        if (result.success) {
-          prompt += `${index + 1}. ${result.name.toUpperCase()} Plugin:\n`;
-          if (result.name === 'weather') {
-            const weather = result.data;
-            prompt += `   Location: ${weather.location}\n   Temperature: ${weather.temperature}°C\n   Condition: ${weather.condition}\n   Humidity: ${weather.humidity}%\n   Wind Speed: ${weather.windSpeed} km/h\n`;
-          } else if (result.name === 'math') {
-            const math = result.data;
-            prompt += `   Expression: ${math.expression}\n   Result: ${math.result}\n`;
-          }
-        } else {
-          prompt += `${index + 1}. ${result.name.toUpperCase()} Plugin: Failed - ${result.error}\n`;
-        }
-      });
-    }
-
-    prompt += `\n## USER MESSAGE
-${message}
-
-## INSTRUCTIONS
-- You are a knowledgeable AI assistant with expertise in various topics
-- Provide comprehensive, confident responses using your general knowledge
-- When documents contain relevant information, use it to enhance your response with specific details and examples
-- Always cite sources when using document information (e.g., "According to [filename]...")
-- When plugin results are available, incorporate them naturally into your response
-- For weather queries, provide a friendly summary of the weather data
-- For math queries, confirm the calculation and provide the result clearly
-- Only say "I don't have enough information" for very specific or technical questions you truly cannot answer
-- Be helpful, informative, and confident in your responses
-
-## RESPONSE
-`;
-
-    return prompt;
+  // Markers are 1-based positions in the prompt's document context
+  private toUsedChunk(result: RAGResult, index: number): UsedChunk {
+    return {
+      id: result.id,
+      marker: index + 1,
+      content: result.content,
+      source: result.source,
+      score: result.score,
+      metadata: result.metadata,
+    };
   }
 
-  private enhanceSearchQuery(message: string): string {
-    const lowerMessage = message.toLowerCase();
-
-    if (lowerMessage.includes('what is') || lowerMessage.includes('define') || lowerMessage.includes('explain')) {
-      const topic = message.replace(/what is|define|explain/gi, '').trim();
-      return `${topic} definition overview introduction basics`;
-    }
+  private toPluginUsage(result: PluginResult): PluginUsage {
+    return {
+      name: result.name,
+      success: result.success,
+      data: result.data,
+      error: result.error,
+    };
+  }
 
-    if (lowerMessage.includes('how to') || lowerMessage.includes('how do')) {
-      return `${message} guide tutorial steps instructions`;
-    }
+  // A chunk as listed in the prompt, numbered to match its citation marker
+  private formatDocument(result: RAGResult, index: number): string {
+    return `[${index + 1}] Source: ${result.source}\nContent: ${result.content}`;
+  }
 
-    return message;
+  private buildPromptContext(
+    message: string,
+    memorySummary: string,
+    documents: string,
+    strictGrounding: boolean
+  ): PromptContext {
+    return {
+      memory: memorySummary,
+      documents,
+      plugins: this.pluginManager.getToolDefinitions()
+        .map(tool => `- ${tool.name}: ${tool.description}`)
+        .join('\n'),
+      message,
+      strictGrounding,
+    };
   }
 
   private createAgentError(code: string, message: string, sessionId?: string): AgentError {
@@ -0,0 +1,202 @@
+import fs from 'fs';
+import path from 'path';
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import Database from 'better-sqlite3';
+import { v4 as uuidv4 } from 'uuid';
+import { ApiKey, ApiKeyScope, IssuedApiKey } from '@/types/auth';
+
+const KEY_PREFIX = 'rak_';
+// Characters of the secret kept in clear for display, including KEY_PREFIX
+const DISPLAY_PREFIX_LENGTH = 12;
+const BOOTSTRAP_KEY_ID = 'bootstrap';
+
+interface ApiKeyRow {
+  id: string;
+  name: string;
+  prefix: string;
+  scopes: string;
+  created_at: number;
+  rotated_at: number | null;
+  last_used_at: number | null;
+  revoked_at: number | null;
+}
+
+// Keys are 256 random bits, so a fast hash is enough: there is nothing to brute-force
+function hashKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+function generateKey(): string {
+  return `${KEY_PREFIX}${randomBytes(32).toString('base64url')}`;
+}
+
+function toApiKey(row: ApiKeyRow): ApiKey {
+  const iso = (time: number | null) => (time === null ? undefined : new Date(time).toISOString());
+  const rotatedAt = iso(row.rotated_at);
+  const lastUsedAt = iso(row.last_used_at);
+  const revokedAt = iso(row.revoked_at);
+
+  return {
+    id: row.id,
+    name: row.name,
+    prefix: row.prefix,
+    scopes: JSON.parse(row.scopes) as ApiKeyScope[],
+    createdAt: new Date(row.created_at).toISOString(),
+    ...(rotatedAt && { rotatedAt }),
+    ...(lastUsedAt && { lastUsedAt }),
+    ...(revokedAt && { revokedAt }),
+  };
+}
+
+// Tagged so routes can map them to 404 / 409
+function apiKeyError(message: string, code: 'API_KEY_NOT_FOUND' | 'API_KEY_REVOKED'): Error {
+  return Object.assign(new Error(message), { code });
+}
+
+/**
+ * API keys in a SQLite file. Only the SHA-256 of each key is stored; the key
+ * itself is returned once, when it is created or rotated. Revoked keys stay
+ * listed so their ids remain traceable in logs. An optional bootstrap key from
+ * the environment acts as an admin key, so the first keys can be issued.
+ */
+export class ApiKeyService {
+  private db: Database.Database | null = null;
+  private filePath: string;
+  private bootstrap: { hash: Buffer; apiKey: ApiKey } | null = null;
+
+  constructor(filePath: string, bootstrapKey?: string) {
+    this.filePath = filePath;
+
+    if (bootstrapKey) {
+      this.bootstrap = {
+        hash: Buffer.from(hashKey(bootstrapKey), 'hex'),
+        apiKey: {
+          id: BOOTSTRAP_KEY_ID,
+          name: 'Bootstrap key (AUTH_BOOTSTRAP_KEY)',
+          prefix: bootstrapKey.slice(0, 4),
+          scopes: ['admin'],
+          createdAt: new Date().toISOString(),
+        },
+      };
+    }
+  }
+
+  async initialize(): Promise<void> {
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+
+    this.db = new Database(this.filePath);
+    this.db.pragma('journal_mode = WAL');
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS api_keys (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        prefix TEXT NOT NULL,
+        key_hash TEXT NOT NULL UNIQUE,
+        scopes TEXT NOT NULL,
+        created_at INTEGER NOT NULL,
+        rotated_at INTEGER,
+        last_used_at INTEGER,
+        revoked_at INTEGER
+      );
+    `);
+
+    const { active } = this.db
+      .prepare('SELECT COUNT(*) AS active FROM api_keys WHERE revoked_at IS NULL')
+      .get() as { active: number };
+
+    console.log(`✅ API key store initialized (${this.filePath}, ${active} active key(s)${this.bootstrap ? ' + bootstrap key' : ''})`);
+  }
+
+  // The key behind a presented secret, or null if it is unknown or revoked
+  verify(key: string): ApiKey | null {
+    const hash = hashKey(key);
+
+    if (this.bootstrap && timingSafeEqual(this.bootstrap.hash, Buffer.from(hash, 'hex'))) {
+      return this.bootstrap.apiKey;
+    }
+
+    const db = this.getDb();
+    const row = db
+      .prepare('SELECT * FROM api_keys WHERE key_hash = ? AND revoked_at IS NULL')
+      .get(hash) as ApiKeyRow | undefined;
+    if (!row) {
+      return null;
+    }
+
+    row.last_used_at = Date.now();
+    db.prepare('UPDATE api_keys SET last_used_at = ? WHERE id = ?').run(row.last_used_at, row.id);
+    return toApiKey(row);
+  }
+
+  list(): ApiKey[] {
+    const rows = this.getDb()
+      .prepare('SELECT * FROM api_keys ORDER BY created_at ASC')
+      .all() as ApiKeyRow[];
+
+    return rows.map(toApiKey);
+  }
+
+  create(name: string, scopes: ApiKeyScope[]): IssuedApiKey {
+    const key = generateKey();
+    const id = uuidv4();
+
+    this.getDb()
+      .prepare(`
+        INSERT INTO api_keys (id, name, prefix, key_hash, scopes, created_at)
+        VALUES (?, ?, ?, ?, ?, ?)
+      `)
+      .run(id, name, key.slice(0, DISPLAY_PREFIX_LENGTH), hashKey(key), JSON.stringify([...new Set(scopes)]), Date.now());
+
+    console.log(`🔑 Created API key ${id} (${name})`);
+    return { key, apiKey: this.get(id) };
+  }
+
+  // Replace the secret but keep the id, name and scopes; the old secret stops working immediately
+  rotate(id: string): IssuedApiKey {
+    const existing = this.get(id);
+    if (existing.revokedAt) {
+      throw apiKeyError(`API key ${id} is revoked`, 'API_KEY_REVOKED');
+    }
+
+    const key = generateKey();
+    this.getDb()
+      .prepare('UPDATE api_keys SET prefix = ?, key_hash = ?, rotated_at = ? WHERE id = ?')
+      .run(key.slice(0, DISPLAY_PREFIX_LENGTH), hashKey(key), Date.now(), id);
+
+    console.log(`🔑 Rotated API key ${id} (${existing.name})`);
+    return { key, apiKey: this.get(id) };
+  }
+
+  // Revoking twice is a no-op that keeps the original revocation time
+  revoke(id: string): ApiKey {
+    const existing = this.get(id);
+    if (existing.revokedAt) {
+      return existing;
+    }
+
+    this.getDb().prepare('UPDATE api_keys SET revoked_at = ? WHERE id = ?').run(Date.now(), id);
+
+    console.log(`🔑 Revoked API key ${id} (${existing.name})`);
+    return this.get(id);
+  }
+
+  async close(): Promise<void> {
+    this.db?.close();
+    this.db = null;
+  }
+
+  private get(id: string): ApiKey {
+    const row = this.getDb().prepare('SELECT * FROM api_keys WHERE id = ?').get(id) as ApiKeyRow | undefined;
+    if (!row) {
+      throw apiKeyError(`API key not found: ${id}`, 'API_KEY_NOT_FOUND');
+    }
+    return toApiKey(row);
+  }
+
+  private getDb(): Database.Database {
+    if (!this.db) {
+      throw new Error('API key store not initialized');
+    }
+    return this.db;
+  }
+}
@@ -0,0 +1,227 @@
+import { ChunkingOptions } from '@/types/rag';
+import { countTokens } from '@/services/tokenizers';
+
+export interface MarkdownChunk {
+  content: string;
+  tokenCount: number;
+  title?: string;
+  section?: string;
+}
+
+export interface MarkdownChunkingOptions extends Pick<ChunkingOptions, 'maxTokens' | 'overlap'> {
+  // Used as the title when the document has no level-1 heading
+  fallbackTitle?: string;
+}
+
+interface Heading {
+  level: number;
+  text: string;
+}
+
+interface Block {
+  kind: 'text' | 'code' | 'table';
+  text: string;
+}
+
+interface Section {
+  headings: Heading[];
+  blocks: Block[];
+}
+
+/**
+ * Split markdown along its heading hierarchy. Chunks never span two sections,
+ * fenced code blocks and tables are kept whole, and prose is packed up to
+ * `maxTokens` with `overlap` tokens carried over between neighbouring chunks.
+ * Each chunk starts with its nearest heading so it reads on its own.
+ */
+export function chunkMarkdown(content: string, options: MarkdownChunkingOptions): MarkdownChunk[] {
+  const sections = parseSections(content);
+  const documentTitle = sections
+    .flatMap(section => section.headings)
+    .find(heading => heading.level === 1)?.text || options.fallbackTitle;
+
+  const chunks: MarkdownChunk[] = [];
+
+  for (const section of sections) {
+    const nearest = section.headings[section.headings.length - 1];
+    const header = nearest ? `${'#'.repeat(nearest.level)} ${nearest.text}` : '';
+    const breadcrumb = section.headings
+      .filter(heading => heading.level > 1)
+      .map(heading => heading.text)
+      .join(' > ');
+
+    const budget = Math.max(options.maxTokens - countTokens(header), 1);
+
+    for (const body of packSection(section.blocks, budget, options.overlap)) {
+      const chunkContent = header ? `${header}\n\n${body}` : body;
+      chunks.push({
+        content: chunkContent,
+        tokenCount: countTokens(chunkContent),
+        ...(documentTitle && { title: documentTitle }),
+        ...(breadcrumb && { section: breadcrumb }),
+      });
+    }
+  }
+
+  return chunks;
+}
+
+function parseSections(content: string): Section[] {
+  const lines = content.replace(/\r\n?/g, '\n').split('\n');
+  const sections: Section[] = [];
+  let current: Section = { headings: [], blocks: [] };
+  let paragraph: string[] = [];
+
+  const flushParagraph = () => {
+    const text = paragraph.join('\n').trim();
+    if (text) {
+      current.blocks.push({ kind: 'text', text });
+    }
+    paragraph = [];
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i] as string;
+
+    // Fenced code block: consume through the closing fence (or end of file)
+    const fence = line.match(/^\s*(`{3,}|~{3,})/);
+    if (fence) {
+      flushParagraph();
+      const marker = fence[1] as string;
+      const codeLines = [line];
+
+      while (++i < lines.length) {
+        const codeLine = lines[i] as string;
+        codeLines.push(codeLine);
+        if (codeLine.trim().startsWith(marker)) break;
+      }
+
+      current.blocks.push({ kind: 'code', text: codeLines.join('\n') });
+      continue;
+    }
+
+    const heading = line.match(/^(#{1,6})\s+(.+?)\s*#*\s*$/);
+    if (heading) {
+      flushParagraph();
+      sections.push(current);
+
+      const level = (heading[1] as string).length;
+      current = {
+        headings: [...current.headings.filter(h => h.level < level), { level, text: heading[2] as string }],
+        blocks: [],
+      };
+      continue;
+    }
+
+    // Table: consecutive pipe-prefixed rows
+    if (/^\s*\|/.test(line)) {
+      flushParagraph();
+      const rows = [line];
+
+      while (i + 1 < lines.length && /^\s*\|/.test(lines[i + 1] as string)) {
+        rows.push(lines[++i] as string);
+      }
+
+      current.blocks.push({ kind: 'table', text: rows.join('\n') });
+      continue;
+    }
+
+    if (!line.trim()) {
+      flushParagraph();
+      continue;
+    }
+
+    paragraph.push(line);
+  }
+
+  flushParagraph();
+  sections.push(current);
+
+  return sections.filter(section => section.blocks.length > 0);
+}
+
+// Greedily fill chunks with whole blocks; only prose is ever split or overlapped
+function packSection(blocks: Block[], budget: number, overlap: number): string[] {
+  const bodies: string[] = [];
+  let parts: Block[] = [];
+  let used = 0;
+
+  for (const block of blocks) {
+    const pieces = block.kind === 'text' && countTokens(block.text) > budget
+      ? splitProse(block.text, budget).map(text => ({ kind: block.kind, text }))
+      : [block];
+
+    for (const piece of pieces) {
+      const cost = countTokens(piece.text);
+
+      if (parts.length > 0 && used + cost > budget) {
+        bodies.push(joinBlocks(parts));
+
+        const last = parts[parts.length - 1] as Block;
+        const carry = last.kind === 'text' ? trailingTokens(last.text, overlap) : '';
+        const carryCost = countTokens(carry);
+
+        parts = carry && carryCost + cost <= budget ? [{ kind: 'text', text: carry }] : [];
+        used = parts.length > 0 ? carryCost : 0;
+      }
+
+      parts.push(piece);
+      used += cost;
+    }
+  }
+
+  if (parts.length > 0) {
+    bodies.push(joinBlocks(parts));
+  }
+
+  return bodies;
+}
+
+// Break an oversized paragraph at sentence boundaries, falling back to words
+function splitProse(text: string, budget: number): string[] {
+  const sentences = text.match(/[^.!?]+(?:[.!?]+["')\]]*|$)\s*/g) || [text];
+  const units = sentences.flatMap(sentence =>
+    countTokens(sentence) > budget ? sentence.split(/\s+/).filter(Boolean) : [sentence.trim()]
+  );
+
+  const pieces: string[] = [];
+  let current = '';
+
+  for (const unit of units) {
+    const candidate = current ? `${current} ${unit}` : unit;
+    if (current && countTokens(candidate) > budget) {
+      pieces.push(current);
+      current = unit;
+    } else {
+      current = candidate;
+    }
+  }
+
+  if (current) {
+    pieces.push(current);
+  }
+
+  return pieces;
+}
+
+function trailingTokens(text: string, tokens: number): string {
+  if (tokens <= 0) {
+    return '';
+  }
+
+  const words = text.split(/\s+/).filter(Boolean);
+  let tail = '';
+
+  for (let i = words.length - 1; i >= 0; i--) {
+    const candidate = tail ? `${words[i]} ${tail}` : (words[i] as string);
+    if (countTokens(candidate) > tokens) break;
+    tail = candidate;
+  }
+
+  // Never carry the whole block over; that would just duplicate it
+  return tail === text.trim() ? '' : tail;
+}
+
+function joinBlocks(blocks: Block[]): string {
+  return blocks.map(block => block.text).join('\n\n');
+}
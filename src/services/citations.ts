@@ -0,0 +1,102 @@
+import { Citation, GroundingMode, UngroundedSpan, UsedChunk } from '@/types/agent';
+
+// [1] or [1, 3]; adjacent markers like [1][3] match separately
+const MARKER_PATTERN = /\[(\d+(?:\s*,\s*\d+)*)\]/g;
+
+// Up to terminal punctuation followed by whitespace (markers right after the full stop stay
+// with their sentence), or to the end of the line. A full stop after a lone letter ("e.g.") doesn't end one.
+const SENTENCE_PATTERN = /\S.*?(?:(?<!(?:^|[\s.(])\p{L})[.!?]+(?:\s*\[\d+(?:\s*,\s*\d+)*\])*(?=\s|$)|$)/gmu;
+
+// Reply used when strict grounding drops every sentence
+export const NO_GROUNDED_ANSWER = "I couldn't find support for an answer in the available documents.";
+
+interface Sentence {
+  start: number;
+  end: number;
+  text: string;
+  markers: number[];
+}
+
+export interface GroundedReply {
+  reply: string;
+  citations: Citation[];
+  ungrounded?: UngroundedSpan[];
+}
+
+function splitSentences(reply: string): Sentence[] {
+  return [...reply.matchAll(SENTENCE_PATTERN)].map(match => {
+    const text = match[0];
+    const start = match.index ?? 0;
+    const markers = [...text.matchAll(MARKER_PATTERN)].flatMap(marker =>
+      (marker[1] || '').split(',').map(Number)
+    );
+
+    return { start, end: start + text.length, text, markers: [...new Set(markers)] };
+  });
+}
+
+// Headings, list numbers and bare markers make no claim, so they never need a citation
+function makesClaim(sentence: Sentence): boolean {
+  return !/^#{1,6}\s/.test(sentence.text) && /\p{L}/u.test(sentence.text.replace(MARKER_PATTERN, ''));
+}
+
+function removeSentences(reply: string, sentences: Sentence[]): string {
+  let result = reply;
+
+  // Back to front so earlier offsets stay valid
+  for (const { start, end } of [...sentences].reverse()) {
+    const trailing = result.slice(end).match(/^[ \t]*/)?.[0].length ?? 0;
+    // At the end of a line, take the space before the sentence rather than leave it dangling
+    const atLineEnd = /^[ \t]*(?:\n|$)/.test(result.slice(end));
+    const leading = atLineEnd ? result.slice(0, start).match(/[ \t]*$/)?.[0].length ?? 0 : 0;
+    result = result.slice(0, start - leading) + result.slice(end + trailing);
+  }
+
+  return result
+    .split('\n')
+    .filter(line => !/^\s*(?:[-*+]|\d+[.)])\s*$/.test(line)) // list items left empty
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/**
+ * Resolve the reply's [n] markers against the chunks given to the model and
+ * apply strict grounding to sentences that cite none of them. Markers that
+ * don't match a chunk are not citations.
+ */
+export function groundReply(reply: string, chunks: UsedChunk[], mode: GroundingMode): GroundedReply {
+  const chunksByMarker = new Map(chunks.map(chunk => [chunk.marker, chunk]));
+  const isGrounded = (sentence: Sentence) => sentence.markers.some(marker => chunksByMarker.has(marker));
+  const ungroundedIn = (sentences: Sentence[]) =>
+    sentences.filter(sentence => makesClaim(sentence) && !isGrounded(sentence));
+
+  let sentences = splitSentences(reply);
+
+  if (mode === 'drop') {
+    const dropped = ungroundedIn(sentences);
+    if (dropped.length > 0) {
+      reply = removeSentences(reply, dropped) || NO_GROUNDED_ANSWER;
+      sentences = splitSentences(reply);
+    }
+  }
+
+  const citations = sentences.flatMap(sentence =>
+    sentence.markers.flatMap(marker => {
+      const chunk = chunksByMarker.get(marker);
+      return chunk
+        ? [{ marker, chunk_id: chunk.id, source: chunk.source, start: sentence.start, end: sentence.end }]
+        : [];
+    })
+  );
+
+  if (mode !== 'flag') {
+    return { reply, citations };
+  }
+
+  return {
+    reply,
+    citations,
+    ungrounded: ungroundedIn(sentences).map(({ start, end, text }) => ({ start, end, text })),
+  };
+}
@@ -0,0 +1,168 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { Collection, VectorStore } from '@/types/rag';
+
+// Always present; requests that don't name a collection use it
+export const DEFAULT_COLLECTION = 'default';
+
+interface PersistedCollections {
+  version: 1;
+  collections: Collection[];
+}
+
+/**
+ * Per-collection variant of a data file: the default collection keeps the
+ * configured path, others get `<name>.<collection><ext>` next to it.
+ */
+export function collectionFilePath(basePath: string, collection: string): string {
+  if (collection === DEFAULT_COLLECTION) {
+    return basePath;
+  }
+
+  const { dir, name, ext } = path.parse(basePath);
+  return path.join(dir, `${name}.${collection}${ext}`);
+}
+
+// Tagged so routes can map them to 404 / 409
+function collectionError(message: string, code: 'COLLECTION_NOT_FOUND' | 'COLLECTION_EXISTS' | 'COLLECTION_PROTECTED'): Error {
+  return Object.assign(new Error(message), { code });
+}
+
+/**
+ * Named knowledge bases, each backed by its own vector store index.
+ * The list of collections is persisted as JSON; the stores themselves
+ * are created through the injected factory.
+ */
+export class CollectionRegistry {
+  private collections = new Map<string, Collection>();
+  private stores = new Map<string, VectorStore>();
+  private createStore: (collection: string) => VectorStore;
+  private filePath: string;
+
+  constructor(createStore: (collection: string) => VectorStore, filePath: string) {
+    this.createStore = createStore;
+    this.filePath = filePath;
+  }
+
+  async initialize(): Promise<void> {
+    try {
+      const raw = await fs.readFile(this.filePath, 'utf-8');
+      const persisted = JSON.parse(raw) as PersistedCollections;
+      this.collections = new Map(persisted.collections.map(collection => [collection.name, collection]));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+    }
+
+    if (!this.collections.has(DEFAULT_COLLECTION)) {
+      this.collections.set(DEFAULT_COLLECTION, {
+        name: DEFAULT_COLLECTION,
+        description: 'Default knowledge base',
+        createdAt: new Date().toISOString(),
+      });
+      await this.save();
+    }
+
+    for (const name of this.collections.keys()) {
+      await this.openStore(name);
+    }
+
+    console.log(`✅ Loaded ${this.collections.size} collection(s): ${this.names().join(', ')}`);
+  }
+
+  list(): Collection[] {
+    return [...this.collections.values()].sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  names(): string[] {
+    return this.list().map(collection => collection.name);
+  }
+
+  get(name: string): Collection | undefined {
+    return this.collections.get(name);
+  }
+
+  has(name: string): boolean {
+    return this.collections.has(name);
+  }
+
+  store(name: string): VectorStore {
+    const store = this.stores.get(name);
+    if (!store) {
+      throw collectionError(`Collection not found: ${name}`, 'COLLECTION_NOT_FOUND');
+    }
+    return store;
+  }
+
+  async create(name: string, description?: string): Promise<Collection> {
+    if (this.collections.has(name)) {
+      throw collectionError(`Collection already exists: ${name}`, 'COLLECTION_EXISTS');
+    }
+
+    // Open the index first so a backend failure doesn't leave a dangling entry
+    await this.openStore(name);
+
+    const collection: Collection = {
+      name,
+      ...(description && { description }),
+      createdAt: new Date().toISOString(),
+    };
+    this.collections.set(name, collection);
+    await this.save();
+
+    console.log(`✅ Created collection: ${name}`);
+    return collection;
+  }
+
+  async update(name: string, description: string): Promise<Collection> {
+    const existing = this.collections.get(name);
+    if (!existing) {
+      throw collectionError(`Collection not found: ${name}`, 'COLLECTION_NOT_FOUND');
+    }
+
+    const collection: Collection = {
+      name: existing.name,
+      ...(description && { description }),
+      createdAt: existing.createdAt,
+    };
+    this.collections.set(name, collection);
+    await this.save();
+
+    return collection;
+  }
+
+  // Drops the collection's index and every chunk in it
+  async delete(name: string): Promise<void> {
+    if (name === DEFAULT_COLLECTION) {
+      throw collectionError('The default collection cannot be deleted', 'COLLECTION_PROTECTED');
+    }
+
+    await this.store(name).drop();
+    this.stores.delete(name);
+    this.collections.delete(name);
+    await this.save();
+
+    console.log(`✅ Deleted collection: ${name}`);
+  }
+
+  private async openStore(name: string): Promise<VectorStore> {
+    const store = this.createStore(name);
+    await store.initialize();
+    this.stores.set(name, store);
+    return store;
+  }
+
+  private async save(): Promise<void> {
+    const persisted: PersistedCollections = {
+      version: 1,
+      collections: this.list(),
+    };
+
+    // Write to a temp file and rename so a crash never leaves a truncated registry
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    const tempPath = `${this.filePath}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(persisted, null, 2));
+    await fs.rename(tempPath, this.filePath);
+  }
+}
@@ -0,0 +1,128 @@
+import { config } from '@/config';
+import { Tokenizer } from '@/types/llm';
+import { RAGResult } from '@/types/rag';
+import { ContextBudgetReport } from '@/types/agent';
+
+// A piece cut shorter than this carries too little to be worth including
+const MIN_TRUNCATED_TOKENS = 32;
+const TRUNCATION_MARK = ' …';
+const TOOL_OUTPUT_OMITTED = '[Tool output omitted: context token budget exhausted]';
+// Blank line between two document entries
+const SEPARATOR_TOKENS = 1;
+
+interface PackingStats {
+  included: number;
+  truncated: number;
+  dropped: number;
+}
+
+/**
+ * Splits one agent turn's prompt token budget. The template text and the
+ * user message are fixed costs. Memory may use up to its share, retrieved
+ * chunks get the rest minus the tool output share, and tool output gets
+ * whatever is left once the prompt is built. Over budget, the lowest-ranked
+ * chunks and the latest tool results go first and the last piece that
+ * partly fits is truncated, so the same inputs always pack the same way.
+ */
+export class ContextAssembler {
+  private tokenizer: Tokenizer;
+  private budget: number;
+  private sections = { instructions: 0, message: 0, memory: 0, documents: 0, tools: 0 };
+  private chunks: PackingStats = { included: 0, truncated: 0, dropped: 0 };
+  private toolResults: PackingStats = { included: 0, truncated: 0, dropped: 0 };
+
+  // `emptyPrompt` is the rendered template with no memory or documents, including the message
+  constructor(tokenizer: Tokenizer, budget: number, emptyPrompt: string, message: string) {
+    this.tokenizer = tokenizer;
+    this.budget = budget;
+    this.sections.message = tokenizer.count(message);
+    this.sections.instructions = Math.max(tokenizer.count(emptyPrompt) - this.sections.message, 0);
+  }
+
+  // Most tokens the memory section should take
+  get memoryLimit(): number {
+    return Math.floor(this.available() * config.context.memoryShare);
+  }
+
+  addMemory(memory: string): void {
+    this.sections.memory = this.tokenizer.count(memory);
+  }
+
+  // Keep chunks in rank order while they fit; `format` renders a chunk as it appears in the prompt
+  packChunks(results: RAGResult[], format: (result: RAGResult, index: number) => string): RAGResult[] {
+    let remaining = this.remaining() - Math.floor(this.available() * config.context.toolShare);
+    const packed: RAGResult[] = [];
+
+    for (const result of results) {
+      const index = packed.length;
+      const cost = this.tokenizer.count(format(result, index)) + SEPARATOR_TOKENS;
+
+      if (cost <= remaining) {
+        packed.push(result);
+        remaining -= cost;
+        this.sections.documents += cost;
+        continue;
+      }
+
+      // The first chunk that doesn't fit is cut down if enough room is left; everything ranked below it is dropped
+      const overhead = this.tokenizer.count(format({ ...result, content: TRUNCATION_MARK }, index)) + SEPARATOR_TOKENS;
+      const room = remaining - overhead;
+      if (room >= MIN_TRUNCATED_TOKENS) {
+        const content = `${this.tokenizer.truncate(result.content, room)}${TRUNCATION_MARK}`;
+        packed.push({ ...result, content });
+        this.sections.documents += this.tokenizer.count(format({ ...result, content }, index)) + SEPARATOR_TOKENS;
+        this.chunks.truncated = 1;
+      }
+      break;
+    }
+
+    this.chunks.included = packed.length;
+    this.chunks.dropped = results.length - packed.length;
+    return packed;
+  }
+
+  // Tool output as it should go back to the model: whole, truncated, or replaced by a notice
+  fitToolOutput(output: string): string {
+    const remaining = this.remaining();
+    const cost = this.tokenizer.count(output);
+
+    if (cost <= remaining) {
+      this.sections.tools += cost;
+      this.toolResults.included++;
+      return output;
+    }
+
+    const room = remaining - this.tokenizer.count(TRUNCATION_MARK);
+    if (room >= MIN_TRUNCATED_TOKENS) {
+      const truncated = `${this.tokenizer.truncate(output, room)}${TRUNCATION_MARK}`;
+      this.sections.tools += this.tokenizer.count(truncated);
+      this.toolResults.included++;
+      this.toolResults.truncated++;
+      return truncated;
+    }
+
+    this.toolResults.dropped++;
+    return TOOL_OUTPUT_OMITTED;
+  }
+
+  report(): ContextBudgetReport {
+    return {
+      tokenizer: this.tokenizer.name,
+      budget: this.budget,
+      used: Object.values(this.sections).reduce((sum, tokens) => sum + tokens, 0),
+      sections: { ...this.sections },
+      chunks: { ...this.chunks },
+      tool_results: { ...this.toolResults },
+    };
+  }
+
+  // Budget after the fixed costs
+  private available(): number {
+    return Math.max(this.budget - this.sections.instructions - this.sections.message, 0);
+  }
+
+  private remaining(): number {
+    const { memory, documents, tools } = this.sections;
+    return Math.max(this.available() - memory - documents - tools, 0);
+  }
+}
@@ -2,7 +2,9 @@ import fs from 'fs/promises';
 import path from 'path';
 import { v4 as uuidv4 } from 'uuid';
 import { config } from '@/config';
-import { DocumentChunk } from '@/services/weaviate';
+import { VectorChunk } from '@/types/rag';
+import { chunkMarkdown } from '@/services/chunking/markdown';
+import { isSupportedDocument, loadDocument } from '@/services/loaders';
 
 export interface ProcessingOptions {
   maxChunkTokens?: number;
@@ -17,7 +19,7 @@ export class DocumentProcessor {
     this.documentsPath = path.join(process.cwd(), 'data', 'documents');
   }
 
-  async processAllDocuments(options: ProcessingOptions = {}): Promise<DocumentChunk[]> {
+  async processAllDocuments(options: ProcessingOptions = {}): Promise<VectorChunk[]> {
     const {
       maxChunkTokens = config.rag.maxChunkTokens,
       chunkOverlap = config.rag.chunkOverlap,
@@ -26,16 +28,16 @@ export class DocumentProcessor {
 
     try {
       // Get all markdown files
-      const files = await this.getMarkdownFiles();
+      const files = await this.getDocumentFiles();
 
       if (files.length === 0) {
-        console.log('⚠️  No markdown files found in data/documents/');
+        console.log('⚠️  No supported documents found in data/documents/');
         return [];
       }
 
-      console.log(`📚 Processing ${files.length} markdown files...`);
+      console.log(`📚 Processing ${files.length} documents...`);
 
-      const allChunks: DocumentChunk[] = [];
+      const allChunks: VectorChunk[] = [];
 
       for (const file of files) {
         const chunks = await this.processDocument(file, {
@@ -54,11 +56,11 @@ export class DocumentProcessor {
     }
   }
 
-  async getMarkdownFiles(): Promise<string[]> {
+  async getDocumentFiles(): Promise<string[]> {
     try {
       const files = await fs.readdir(this.documentsPath);
       return files
-        .filter(file => file.endsWith('.md') && file !== 'README.md')
+        .filter(file => isSupportedDocument(file) && file !== 'README.md')
         .map(file => path.join(this.documentsPath, file));
     } catch (error) {
       console.error('❌ Failed to read documents directory:', error);
@@ -69,31 +71,38 @@ export class DocumentProcessor {
   async processDocument(
     filePath: string,
     options: ProcessingOptions
-  ): Promise<DocumentChunk[]> {
+  ): Promise<VectorChunk[]> {
     const { maxChunkTokens, chunkOverlap, includeMetadata } = options;
     const fileName = path.basename(filePath);
 
     try {
-      // Read file content
-      const content = await fs.readFile(filePath, 'utf-8');
-
-      // Clean and normalize content
-      const cleanedContent = this.cleanMarkdown(content);
-
-      // Split into chunks
-      const chunks = this.splitIntoChunks(cleanedContent, maxChunkTokens || 200, chunkOverlap || 50);
+      // Extract text with the loader for this format
+      const document = await loadDocument(await fs.readFile(filePath), fileName);
+
+      // Split along headings, keeping code blocks and tables intact
+      const chunks = document.sections.flatMap(section =>
+        chunkMarkdown(section.text, {
+          maxTokens: maxChunkTokens || 200,
+          overlap: chunkOverlap || 50,
+          fallbackTitle: document.title || path.parse(fileName).name,
+        }).map(chunk => ({ ...chunk, sectionMetadata: section.metadata || {} }))
+      );
 
       // Convert to DocumentChunk objects
-      const documentChunks: DocumentChunk[] = chunks.map((chunk, index) => ({
+      const documentChunks: VectorChunk[] = chunks.map((chunk, index) => ({
         id: uuidv4(),
-        content: chunk.trim(),
+        content: chunk.content,
         source: fileName,
         metadata: includeMetadata ? {
+          ...chunk.sectionMetadata,
           chunkIndex: index,
           totalChunks: chunks.length,
           fileName,
           filePath,
           processedAt: new Date().toISOString(),
+          tokenCount: chunk.tokenCount,
+          ...(chunk.title && { title: chunk.title }),
+          ...(chunk.section && { section: chunk.section }),
         } : {},
       }));
 
@@ -105,73 +114,13 @@ export class DocumentProcessor {
     }
   }
 
-  private cleanMarkdown(content: string): string {
-    return content
-      // Remove HTML tags
-      .replace(/<[^>]*>/g, '')
-      // Remove excessive whitespace
-      .replace(/\s+/g, ' ')
-      // Remove markdown links but keep text
-      .replace(/\[([^\]]+)\]\([^)]+\)/g, '$1')
-      // Remove markdown images
-      .replace(/!\[([^\]]*)\]\([^)]+\)/g, '')
-      // Remove code block markers
-      .replace(/```[\s\S]*?```/g, '')
-      // Remove inline code markers
-      .replace(/`([^`]+)`/g, '$1')
-      // Remove bold/italic markers
-      .replace(/\*\*([^*]+)\*\*/g, '$1')
-      .replace(/\*([^*]+)\*/g, '$1')
-      // Remove headers but keep text
-      .replace(/^#{1,6}\s+/gm, '')
-      // Remove list markers
-      .replace(/^[\s]*[-*+]\s+/gm, '')
-      .replace(/^[\s]*\d+\.\s+/gm, '')
-      // Remove blockquotes
-      .replace(/^>\s+/gm, '')
-      // Remove horizontal rules
-      .replace(/^---$/gm, '')
-      // Trim whitespace
-      .trim();
-  }
-
-  private splitIntoChunks(
-    content: string,
-    maxTokens: number,
-    overlap: number
-  ): string[] {
-    // Simple token estimation (words + punctuation)
-    const tokens = content.split(/\s+/);
-    const chunks: string[] = [];
-
-    if (tokens.length <= maxTokens) {
-      return [content];
-    }
-
-    let startIndex = 0;
-
-    while (startIndex < tokens.length) {
-      const endIndex = Math.min(startIndex + maxTokens, tokens.length);
-      const chunk = tokens.slice(startIndex, endIndex).join(' ');
-      chunks.push(chunk);
-
-      // Move start index with overlap
-      startIndex = endIndex - overlap;
-
-      // Prevent infinite loop
-      if (startIndex >= tokens.length) break;
-    }
-
-    return chunks;
-  }
-
   async getDocumentStats(): Promise<{
     totalFiles: number;
     totalChunks: number;
     files: Array<{ name: string; size: number; chunks: number }>;
   }> {
     try {
-      const files = await this.getMarkdownFiles();
+      const files = await this.getDocumentFiles();
       const stats = {
         totalFiles: files.length,
         totalChunks: 0,
@@ -181,12 +130,12 @@ export class DocumentProcessor {
       for (const filePath of files) {
         const fileName = path.basename(filePath);
         const fileStats = await fs.stat(filePath);
-        const content = await fs.readFile(filePath, 'utf-8');
-        const cleanedContent = this.cleanMarkdown(content);
-        const chunks = this.splitIntoChunks(
-          cleanedContent,
-          config.rag.maxChunkTokens || 200,
-          config.rag.chunkOverlap || 50
+        const document = await loadDocument(await fs.readFile(filePath), fileName);
+        const chunks = document.sections.flatMap(section =>
+          chunkMarkdown(section.text, {
+            maxTokens: config.rag.maxChunkTokens || 200,
+            overlap: config.rag.chunkOverlap || 50,
+          })
         );
 
         stats.files.push({
@@ -0,0 +1,189 @@
+import fs from 'fs';
+import path from 'path';
+import { createHash } from 'crypto';
+import Database from 'better-sqlite3';
+import { EmbeddingCacheStats, IEmbeddingService } from '@/types/rag';
+
+function hashText(text: string): string {
+  return createHash('sha256').update(text).digest('hex');
+}
+
+// float32 halves the blob size and is plenty of precision for cosine scoring
+function encodeVector(vector: number[]): Buffer {
+  return Buffer.from(new Float32Array(vector).buffer);
+}
+
+function decodeVector(blob: Buffer): number[] {
+  // Copy out so the Float32Array view is aligned regardless of the Buffer's offset
+  const bytes = blob.buffer.slice(blob.byteOffset, blob.byteOffset + blob.byteLength);
+  return Array.from(new Float32Array(bytes));
+}
+
+/**
+ * Persistent embedding cache in front of another IEmbeddingService, keyed by
+ * (model, SHA-256 of the text). Only texts missing from the cache reach the
+ * provider. Least recently used entries are evicted beyond `maxEntries`.
+ */
+export class CachedEmbeddingService implements IEmbeddingService {
+  public readonly model: string;
+  private inner: IEmbeddingService;
+  private filePath: string;
+  private maxEntries: number;
+  private db: Database.Database | null = null;
+  private dimensions = 0;
+  private entries = 0;
+  private hits = 0;
+  private misses = 0;
+  private evictions = 0;
+
+  constructor(inner: IEmbeddingService, filePath: string, maxEntries: number) {
+    this.inner = inner;
+    this.model = inner.model;
+    this.filePath = filePath;
+    this.maxEntries = maxEntries;
+  }
+
+  async initialize(): Promise<void> {
+    await this.inner.initialize();
+
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+
+    this.db = new Database(this.filePath);
+    this.db.pragma('journal_mode = WAL');
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS embeddings (
+        model TEXT NOT NULL,
+        text_hash TEXT NOT NULL,
+        vector BLOB NOT NULL,
+        last_used_at INTEGER NOT NULL,
+        PRIMARY KEY (model, text_hash)
+      );
+      CREATE INDEX IF NOT EXISTS idx_embeddings_last_used_at ON embeddings (last_used_at);
+    `);
+
+    this.entries = this.countEntries();
+    // MAX_ENTRIES may have been lowered since the last run
+    this.evict();
+
+    console.log(`✅ Embedding cache initialized (${this.filePath}, ${this.entries} entries)`);
+  }
+
+  async embed(text: string): Promise<number[]> {
+    const [embedding] = await this.embedBatch([text]);
+    if (!embedding) {
+      throw new Error('Embedding provider returned no vectors');
+    }
+    return embedding;
+  }
+
+  async embedBatch(texts: string[]): Promise<number[][]> {
+    if (texts.length === 0) {
+      return [];
+    }
+
+    const db = this.getDb();
+    const now = Date.now();
+    const hashes = texts.map(hashText);
+    const select = db.prepare('SELECT vector FROM embeddings WHERE model = ? AND text_hash = ?');
+    const touch = db.prepare('UPDATE embeddings SET last_used_at = ? WHERE model = ? AND text_hash = ?');
+
+    const results: Array<number[] | undefined> = db.transaction(() =>
+      hashes.map(hash => {
+        const row = select.get(this.model, hash) as { vector: Buffer } | undefined;
+        if (!row) return undefined;
+
+        touch.run(now, this.model, hash);
+        return decodeVector(row.vector);
+      })
+    )();
+
+    // Embed each distinct missing text once, even if it repeats within the batch
+    const missing = new Map<string, string>();
+    results.forEach((result, index) => {
+      if (!result) missing.set(hashes[index] as string, texts[index] as string);
+    });
+
+    const missCount = results.filter(result => !result).length;
+    this.hits += texts.length - missCount;
+    this.misses += missCount;
+
+    if (missing.size > 0) {
+      const vectors = await this.inner.embedBatch([...missing.values()]);
+      // A short batch can't be matched back to its texts, and must not be cached as empty vectors
+      if (vectors.length !== missing.size) {
+        throw new Error(`Embedding provider returned ${vectors.length} vectors for ${missing.size} texts`);
+      }
+      const fresh = new Map([...missing.keys()].map((hash, index) => [hash, vectors[index] as number[]]));
+
+      const insert = db.prepare(`
+        INSERT INTO embeddings (model, text_hash, vector, last_used_at)
+        VALUES (?, ?, ?, ?)
+        ON CONFLICT (model, text_hash) DO UPDATE SET vector = excluded.vector, last_used_at = excluded.last_used_at
+      `);
+      db.transaction(() => {
+        for (const [hash, vector] of fresh) {
+          insert.run(this.model, hash, encodeVector(vector), now);
+        }
+      })();
+
+      // Re-counted rather than added up: some rows may only have been updated, by a concurrent batch or another process
+      this.entries = this.countEntries();
+      this.evict();
+
+      hashes.forEach((hash, index) => {
+        results[index] = results[index] || fresh.get(hash);
+      });
+    }
+
+    const embeddings = results as number[][];
+    this.dimensions = embeddings[0]?.length ?? this.dimensions;
+    return embeddings;
+  }
+
+  getDimensions(): number {
+    return this.dimensions || this.inner.getDimensions();
+  }
+
+  getCacheStats(): EmbeddingCacheStats {
+    const lookups = this.hits + this.misses;
+
+    return {
+      entries: this.entries,
+      maxEntries: this.maxEntries,
+      hits: this.hits,
+      misses: this.misses,
+      hitRate: lookups > 0 ? this.hits / lookups : 0,
+      evictions: this.evictions,
+    };
+  }
+
+  private countEntries(): number {
+    return (this.getDb().prepare('SELECT COUNT(*) AS entries FROM embeddings').get() as { entries: number }).entries;
+  }
+
+  // Drop least recently used entries beyond the cap
+  private evict(): void {
+    const excess = this.entries - this.maxEntries;
+    if (excess <= 0) {
+      return;
+    }
+
+    const result = this.getDb()
+      .prepare(`
+        DELETE FROM embeddings WHERE rowid IN (
+          SELECT rowid FROM embeddings ORDER BY last_used_at ASC LIMIT ?
+        )
+      `)
+      .run(excess);
+
+    this.entries -= result.changes;
+    this.evictions += result.changes;
+  }
+
+  private getDb(): Database.Database {
+    if (!this.db) {
+      throw new Error('Embedding cache not initialized');
+    }
+    return this.db;
+  }
+}
@@ -0,0 +1,50 @@
+import { createHash } from 'crypto';
+import { IEmbeddingService } from '@/types/rag';
+
+/**
+ * Hashed bag of words: each token adds ±1 to one of `dimensions` buckets,
+ * then the vector is L2-normalized. Deterministic and offline, and texts
+ * sharing words score closer, which is enough for tests and local development.
+ */
+export function hashEmbedding(text: string, dimensions: number): number[] {
+  const vector = new Array<number>(dimensions).fill(0);
+
+  for (const token of text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || []) {
+    const hash = createHash('md5').update(token).digest();
+    const index = hash.readUInt32BE(0) % dimensions;
+    const sign = (hash[4] ?? 0) & 1 ? 1 : -1;
+    vector[index] = (vector[index] ?? 0) + sign;
+  }
+
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return norm > 0 ? vector.map(value => value / norm) : vector;
+}
+
+/**
+ * Local embedding provider with no model behind it (EMBEDDING_PROVIDER=hash)
+ */
+export class HashingEmbeddingService implements IEmbeddingService {
+  public readonly model: string;
+  private dimensions: number;
+
+  constructor(dimensions: number) {
+    this.dimensions = dimensions;
+    this.model = `hash:${dimensions}`;
+  }
+
+  async initialize(): Promise<void> {
+    console.log(`✅ Hashing embeddings initialized (${this.dimensions} dimensions)`);
+  }
+
+  async embed(text: string): Promise<number[]> {
+    return hashEmbedding(text, this.dimensions);
+  }
+
+  async embedBatch(texts: string[]): Promise<number[][]> {
+    return texts.map(text => hashEmbedding(text, this.dimensions));
+  }
+
+  getDimensions(): number {
+    return this.dimensions;
+  }
+}
@@ -0,0 +1,50 @@
+import path from 'path';
+import { config } from '@/config';
+import { EmbeddingProviderName, IEmbeddingService } from '@/types/rag';
+import { ILLMService, LLMProviderName } from '@/types/llm';
+import { createLLMService } from '@/services/llm';
+import { EMBEDDING_DIMENSIONS as FAKE_EMBEDDING_DIMENSIONS } from '@/services/llm/fake';
+import { LLMEmbeddingService } from '@/services/embeddings/llm';
+import { HashingEmbeddingService } from '@/services/embeddings/hashing';
+import { CachedEmbeddingService } from '@/services/embeddings/cache';
+
+// Identifies the vector space, so stored vectors from another model are never mixed in
+const embeddingModels: Record<LLMProviderName, () => string> = {
+  gemini: () => `gemini:${config.gemini.embeddingModel}`,
+  openai: () => `openai:${config.openai.embeddingModel}`,
+  fake: () => `fake:hash-${FAKE_EMBEDDING_DIMENSIONS}`,
+};
+
+// Reuse the chat provider when it is the same backend; otherwise run a separate client just for embeddings
+function providerEmbeddings(provider: LLMProviderName, llmService: ILLMService): IEmbeddingService {
+  const model = embeddingModels[provider]();
+  return llmService.provider === provider
+    ? new LLMEmbeddingService(llmService, model)
+    : new LLMEmbeddingService(createLLMService(provider), model, true);
+}
+
+// Embedding provider registry - add new backends here
+const providers: Record<EmbeddingProviderName, (llmService: ILLMService) => IEmbeddingService> = {
+  llm: (llmService) => providerEmbeddings(llmService.provider, llmService),
+  gemini: (llmService) => providerEmbeddings('gemini', llmService),
+  openai: (llmService) => providerEmbeddings('openai', llmService),
+  hash: () => new HashingEmbeddingService(config.embeddings.dimensions),
+};
+
+export function createEmbeddingService(
+  llmService: ILLMService,
+  name: EmbeddingProviderName = config.embeddings.provider
+): IEmbeddingService {
+  const factory = providers[name];
+  if (!factory) {
+    throw new Error(`Unknown embedding provider: ${name}`);
+  }
+
+  console.log(`🧮 Using embedding provider: ${name}`);
+  const service = factory(llmService);
+
+  const { cache } = config.embeddings;
+  return cache.enabled
+    ? new CachedEmbeddingService(service, path.resolve(cache.path), cache.maxEntries)
+    : service;
+}
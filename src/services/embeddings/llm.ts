@@ -0,0 +1,47 @@
+import { IEmbeddingService } from '@/types/rag';
+import { ILLMService } from '@/types/llm';
+
+/**
+ * Embedding service backed by an LLM provider's embedding endpoint
+ */
+export class LLMEmbeddingService implements IEmbeddingService {
+  public readonly model: string;
+  private llmService: ILLMService;
+  // Set when the provider was created just for embeddings, so nothing else initializes it
+  private ownsProvider: boolean;
+  private dimensions = 0;
+
+  constructor(llmService: ILLMService, model: string, ownsProvider: boolean = false) {
+    this.llmService = llmService;
+    this.model = model;
+    this.ownsProvider = ownsProvider;
+  }
+
+  async initialize(): Promise<void> {
+    if (this.ownsProvider) {
+      await this.llmService.initialize();
+    }
+    console.log(`✅ Embeddings via ${this.model}`);
+  }
+
+  async embed(text: string): Promise<number[]> {
+    const embedding = await this.llmService.generateEmbedding(text);
+    this.dimensions = embedding.length;
+    return embedding;
+  }
+
+  async embedBatch(texts: string[]): Promise<number[][]> {
+    if (texts.length === 0) {
+      return [];
+    }
+
+    const embeddings = await this.llmService.generateEmbeddings(texts);
+    this.dimensions = embeddings[0]?.length ?? this.dimensions;
+    return embeddings;
+  }
+
+  // Known only after the first embedding call
+  getDimensions(): number {
+    return this.dimensions;
+  }
+}
@@ -0,0 +1,78 @@
+import fs from 'fs/promises';
+import path from 'path';
+
+export interface ManifestEntry {
+  hash: string;
+  chunks: number;
+  indexedAt: string;
+}
+
+interface PersistedManifest {
+  version: 1;
+  files: Record<string, ManifestEntry>;
+}
+
+/**
+ * Record of which document versions are in the vector store, keyed by source.
+ * Lets an ingest run skip files whose content hash hasn't changed.
+ */
+export class IngestManifest {
+  private files = new Map<string, ManifestEntry>();
+  private filePath: string;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  async load(): Promise<void> {
+    try {
+      const raw = await fs.readFile(this.filePath, 'utf-8');
+      const persisted = JSON.parse(raw) as PersistedManifest;
+      this.files = new Map(Object.entries(persisted.files));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+      this.files.clear();
+    }
+  }
+
+  get(source: string): ManifestEntry | undefined {
+    return this.files.get(source);
+  }
+
+  set(source: string, entry: ManifestEntry): void {
+    this.files.set(source, entry);
+  }
+
+  delete(source: string): void {
+    this.files.delete(source);
+  }
+
+  clear(): void {
+    this.files.clear();
+  }
+
+  sources(): string[] {
+    return [...this.files.keys()];
+  }
+
+  async save(): Promise<void> {
+    const persisted: PersistedManifest = {
+      version: 1,
+      files: Object.fromEntries(this.files),
+    };
+
+    // Write to a temp file and rename so a crash never leaves a truncated manifest
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    const tempPath = `${this.filePath}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(persisted, null, 2));
+    await fs.rename(tempPath, this.filePath);
+  }
+
+  // Forget everything and delete the file (its collection is gone)
+  async remove(): Promise<void> {
+    this.files.clear();
+    await fs.rm(this.filePath, { force: true });
+  }
+}
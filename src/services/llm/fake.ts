@@ -0,0 +1,68 @@
+import { ILLMService, LLMRequest, LLMResponse, LLMStreamChunk } from '@/types/llm';
+import { hashEmbedding } from '@/services/embeddings/hashing';
+
+export const EMBEDDING_DIMENSIONS = 256;
+
+/**
+ * Deterministic provider for tests and offline development.
+ * Replies echo the last user message and embeddings are a hashed bag of words,
+ * so identical inputs always give identical outputs and similar texts score closer.
+ */
+export class FakeLLMService implements ILLMService {
+  public readonly provider = 'fake';
+
+  async initialize(): Promise<void> {
+    console.log('✅ Fake LLM service initialized (deterministic responses)');
+  }
+
+  async generateCompletion(request: LLMRequest): Promise<LLMResponse> {
+    const content = this.buildReply(request);
+    const promptTokens = this.countWords(request.messages.map(m => m.content).join(' '));
+    const completionTokens = this.countWords(content);
+
+    return {
+      content,
+      usage: {
+        promptTokens,
+        completionTokens,
+        totalTokens: promptTokens + completionTokens,
+      },
+    };
+  }
+
+  // Never requests tools, so agent tool loops finish after a single turn
+  async *generateCompletionStream(request: LLMRequest): AsyncGenerator<LLMStreamChunk> {
+    const { content, usage } = await this.generateCompletion(request);
+    for (const word of content.split(/(\s+)/)) {
+      if (word) {
+        yield { type: 'text', delta: word };
+      }
+    }
+
+    yield { type: 'usage', usage };
+  }
+
+  async generateEmbedding(text: string): Promise<number[]> {
+    return hashEmbedding(text, EMBEDDING_DIMENSIONS);
+  }
+
+  async generateEmbeddings(texts: string[]): Promise<number[][]> {
+    return Promise.all(texts.map(text => this.generateEmbedding(text)));
+  }
+
+  async healthCheck(): Promise<boolean> {
+    return true;
+  }
+
+  private buildReply(request: LLMRequest): string {
+    const lastUserMessage = [...request.messages].reverse().find(m => m.role === 'user');
+    const content = lastUserMessage?.content.trim() || '';
+    const excerpt = content.length > 200 ? `${content.slice(0, 200)}...` : content;
+
+    return `[fake] ${excerpt}`;
+  }
+
+  private countWords(text: string): number {
+    return text.split(/\s+/).filter(Boolean).length;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,308 @@
+import { BatchEmbedContentsResponse, GoogleGenerativeAI } from '@google/generative-ai';
+import { config } from '@/config';
+import { countTokens } from '@/services/tokenizers';
+import { ILLMService, LLMMessage, LLMRequest, LLMResponse, LLMStreamChunk, LLMToolCall } from '@/types/llm';
+
+export class GeminiService implements ILLMService {
+  public readonly provider = 'gemini';
+  private genAI: GoogleGenerativeAI;
+  private model: any;
+  private embeddingModel: any;
+
+  constructor() {
+    this.genAI = new GoogleGenerativeAI(config.gemini.apiKey || '');
+  }
+
+  async initialize(): Promise<void> {
+    try {
+      if (!config.gemini.apiKey) {
+        console.warn('⚠️  No Gemini API key provided - LLM features will be disabled');
+        return;
+      }
+
+      this.model = this.genAI.getGenerativeModel({ model: config.gemini.model });
+      this.embeddingModel = this.genAI.getGenerativeModel({ model: config.gemini.embeddingModel });
+
+      console.log('✅ Gemini service initialized');
+    } catch (error) {
+      console.error('❌ Failed to initialize Gemini service:', error);
+      throw error;
+    }
+  }
+
+  async generateCompletion(request: LLMRequest): Promise<LLMResponse> {
+    try {
+      if (!this.model) {
+        throw new Error('Gemini model not initialized - API key required');
+      }
+
+      const result = await this.model.generateContent(this.buildContentRequest(request));
+      const response = await result.response;
+      const text = this.extractText(response);
+      const toolCalls = this.extractToolCalls(response);
+
+      // Gemini reports its own counts; fall back to the local tokenizer if a response omits them
+      const usage = response.usageMetadata;
+      const promptTokens = usage?.promptTokenCount ?? countTokens(request.messages.map(m => m.content).join('\n'));
+      const completionTokens = usage?.candidatesTokenCount ?? countTokens(text);
+
+      return {
+        content: text,
+        ...(toolCalls.length > 0 && { toolCalls }),
+        usage: {
+          promptTokens,
+          completionTokens,
+          totalTokens: promptTokens + completionTokens,
+        },
+      };
+    } catch (error) {
+      console.error('❌ Failed to generate completion:', error);
+      throw error;
+    }
+  }
+
+  async *generateCompletionStream(request: LLMRequest): AsyncGenerator<LLMStreamChunk> {
+    if (!this.model) {
+      throw new Error('Gemini model not initialized - API key required');
+    }
+
+    try {
+      const result = await this.model.generateContentStream(this.buildContentRequest(request));
+
+      for await (const chunk of result.stream) {
+        const delta = this.extractText(chunk);
+        if (delta) {
+          yield { type: 'text', delta };
+        }
+
+        // Gemini sends function calls whole, never split across chunks
+        const toolCalls = this.extractToolCalls(chunk);
+        if (toolCalls.length > 0) {
+          yield { type: 'tool_calls', toolCalls };
+        }
+      }
+
+      // The aggregated response carries the counts for the whole stream
+      const usage = (await result.response).usageMetadata;
+      if (usage) {
+        const promptTokens = usage.promptTokenCount ?? 0;
+        const completionTokens = usage.candidatesTokenCount ?? 0;
+        yield {
+          type: 'usage',
+          usage: { promptTokens, completionTokens, totalTokens: usage.totalTokenCount ?? promptTokens + completionTokens },
+        };
+      }
+    } catch (error) {
+      console.error('❌ Failed to stream completion:', error);
+      throw error;
+    }
+  }
+
+  async generateEmbedding(text: string): Promise<number[]> {
+    try {
+      if (!this.embeddingModel) {
+        throw new Error('Gemini embedding model not initialized - API key required');
+      }
+
+      const result = await this.embeddingModel.embedContent(text);
+      const embedding = await result.embedding;
+
+      return embedding.values;
+    } catch (error) {
+      console.error('❌ Failed to generate embedding:', error);
+      throw error;
+    }
+  }
+
+  async generateEmbeddings(texts: string[]): Promise<number[][]> {
+    try {
+      if (!this.embeddingModel) {
+        throw new Error('Gemini embedding model not initialized - API key required');
+      }
+
+      const embeddings: number[][] = [];
+
+      // One batchEmbedContents call per 100 texts (the API's per-request limit)
+      const batchSize = 100;
+      for (let i = 0; i < texts.length; i += batchSize) {
+        const batch = texts.slice(i, i + batchSize);
+
+        const result: BatchEmbedContentsResponse = await this.embeddingModel.batchEmbedContents({
+          requests: batch.map(text => ({
+            content: { role: 'user', parts: [{ text }] },
+          })),
+        });
+
+        embeddings.push(...result.embeddings.map(embedding => embedding.values));
+      }
+
+      return embeddings;
+    } catch (error) {
+      console.error('❌ Failed to generate embeddings:', error);
+      throw error;
+    }
+  }
+
+  // Convert messages to Gemini contents: system turns become the system instruction,
+  // assistant turns are "model" turns and tool results are "function" turns
+  private convertMessagesToContents(messages: LLMMessage[]) {
+    const systemParts: string[] = [];
+    const contents: Array<{ role: string; parts: any[] }> = [];
+
+    for (const message of messages) {
+      switch (message.role) {
+        case 'system':
+          systemParts.push(message.content);
+          break;
+        case 'user':
+          contents.push({ role: 'user', parts: [{ text: message.content }] });
+          break;
+        case 'assistant':
+          contents.push({
+            role: 'model',
+            parts: [
+              ...(message.content ? [{ text: message.content }] : []),
+              ...(message.toolCalls || []).map(call => ({
+                functionCall: { name: call.name, args: call.arguments },
+              })),
+            ],
+          });
+          break;
+        case 'tool':
+          contents.push({
+            role: 'function',
+            parts: [{
+              functionResponse: {
+                name: message.name || '',
+                response: { content: message.content },
+              },
+            }],
+          });
+          break;
+      }
+    }
+
+    return { systemInstruction: systemParts.join('\n\n'), contents };
+  }
+
+  private buildContentRequest(request: LLMRequest) {
+    const { systemInstruction, contents } = this.convertMessagesToContents(request.messages);
+
+    return {
+      contents,
+      ...(systemInstruction && { systemInstruction }),
+      ...(request.tools?.length && {
+        tools: [{
+          functionDeclarations: request.tools.map(tool => ({
+            name: tool.name,
+            description: tool.description,
+            parameters: toGeminiSchema(tool.parameters),
+          })),
+        }],
+      }),
+      generationConfig: {
+        temperature: request.temperature ?? config.llm.temperature,
+        maxOutputTokens: request.maxTokens ?? config.llm.maxTokens,
+        ...(request.topP !== undefined && { topP: request.topP }),
+      },
+    };
+  }
+
+  private extractText(response: any): string {
+    const parts: any[] = response.candidates?.[0]?.content?.parts || [];
+    return parts
+      .filter(part => typeof part.text === 'string')
+      .map(part => part.text)
+      .join('');
+  }
+
+  private extractToolCalls(response: any): LLMToolCall[] {
+    const calls: Array<{ name: string; args?: Record<string, unknown> }> = response.functionCalls?.() || [];
+
+    // Gemini doesn't assign call ids, so derive one per call
+    return calls.map((call, index) => ({
+      id: `${call.name}-${Date.now()}-${index}`,
+      name: call.name,
+      arguments: call.args || {},
+    }));
+  }
+
+  async healthCheck(): Promise<boolean> {
+    try {
+      if (!config.gemini.apiKey) {
+        return false;
+      }
+
+      // Try a simple completion to test the API
+      const testRequest: LLMRequest = {
+        messages: [
+          { role: 'user', content: 'Hello' }
+        ],
+        maxTokens: 10,
+      };
+
+      await this.generateCompletion(testRequest);
+      return true;
+    } catch (error) {
+      console.error('❌ Gemini health check failed:', error);
+      return false;
+    }
+  }
+
+  // Mock methods for when API key is not available
+  async generateMockCompletion(request: LLMRequest): Promise<LLMResponse> {
+    const mockResponse = `This is a mock response since no Gemini API key is configured.
+
+Original request: ${request.messages.map(m => `${m.role}: ${m.content}`).join('\n')}
+
+To enable real AI responses, please add your GEMINI_API_KEY to the .env file.`;
+
+    return {
+      content: mockResponse,
+      usage: {
+        promptTokens: 0,
+        completionTokens: 0,
+        totalTokens: 0,
+      },
+    };
+  }
+
+  async generateMockEmbedding(_text: string): Promise<number[]> {
+    // Generate a mock embedding (random vector)
+    const mockEmbedding = Array.from({ length: 768 }, () => Math.random() - 0.5);
+    return mockEmbedding;
+  }
+
+  async generateMockEmbeddings(texts: string[]): Promise<number[][]> {
+    const mockEmbeddings = texts.map(() =>
+      Array.from({ length: 768 }, () => Math.random() - 0.5)
+    );
+    return mockEmbeddings;
+  }
+}
+
+// Gemini accepts an OpenAPI subset of JSON schema; keep only the keywords it understands
+const GEMINI_SCHEMA_KEYS = new Set(['type', 'format', 'description', 'nullable', 'enum', 'properties', 'required', 'items']);
+
+function toGeminiSchema(schema: unknown): unknown {
+  if (!schema || typeof schema !== 'object') {
+    return schema;
+  }
+
+  const result: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(schema)) {
+    if (!GEMINI_SCHEMA_KEYS.has(key)) continue;
+
+    if (key === 'properties' && value && typeof value === 'object') {
+      result[key] = Object.fromEntries(
+        Object.entries(value).map(([name, propertySchema]) => [name, toGeminiSchema(propertySchema)])
+      );
+    } else if (key === 'items') {
+      result[key] = toGeminiSchema(value);
+    } else {
+      result[key] = value;
+    }
+  }
+
+  return result;
+}
\ No newline at end of file
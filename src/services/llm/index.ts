@@ -0,0 +1,24 @@
+import { config } from '@/config';
+import { ILLMService, LLMProviderName } from '@/types/llm';
+import { GeminiService } from '@/services/llm/gemini';
+import { OpenAICompatibleService } from '@/services/llm/openai-compatible';
+import { FakeLLMService } from '@/services/llm/fake';
+import { MeteredLLMService } from '@/services/llm/metered';
+
+// Provider registry - add new backends here
+const providers: Record<LLMProviderName, () => ILLMService> = {
+  gemini: () => new GeminiService(),
+  openai: () => new OpenAICompatibleService(),
+  fake: () => new FakeLLMService(),
+};
+
+export function createLLMService(provider: LLMProviderName = config.llm.provider): ILLMService {
+  const factory = providers[provider];
+  if (!factory) {
+    throw new Error(`Unknown LLM provider: ${provider}`);
+  }
+
+  console.log(`🧠 Using LLM provider: ${provider}`);
+  // Every completion reports its usage, so daily token quotas see all LLM calls a request makes
+  return new MeteredLLMService(factory());
+}
\ No newline at end of file
@@ -0,0 +1,90 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { countTokens } from '@/services/tokenizers';
+import { ILLMService, LLMRequest, LLMResponse, LLMStreamChunk, LLMUsage } from '@/types/llm';
+
+const meter = new AsyncLocalStorage<(usage: LLMUsage) => void>();
+
+/**
+ * Run `fn` with the usage of every completion it causes reported to `onUsage`,
+ * one call at a time: agent turns, query rewrites, rerankers, and work such as
+ * summaries that `fn` starts and leaves running in the background.
+ */
+export function meterLLMUsage<T>(onUsage: (usage: LLMUsage) => void, fn: () => T): T {
+  return meter.run(onUsage, fn);
+}
+
+function report(usage: LLMUsage): void {
+  if (usage.totalTokens > 0) {
+    meter.getStore()?.(usage);
+  }
+}
+
+// For streams that end without provider counts: cut short by the consumer, or from a server that doesn't send them
+function estimateUsage(request: LLMRequest, output: string): LLMUsage {
+  const promptTokens = countTokens(request.messages.map(message => message.content).join('\n'));
+  const completionTokens = countTokens(output);
+  return { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens };
+}
+
+/**
+ * Wraps a provider so every completion reports its token usage to the meter
+ * active for the calling request (see meterLLMUsage). Stream usage chunks are
+ * consumed here rather than passed on.
+ */
+export class MeteredLLMService implements ILLMService {
+  public readonly provider: ILLMService['provider'];
+  private inner: ILLMService;
+
+  constructor(inner: ILLMService) {
+    this.inner = inner;
+    this.provider = inner.provider;
+  }
+
+  initialize(): Promise<void> {
+    return this.inner.initialize();
+  }
+
+  async generateCompletion(request: LLMRequest): Promise<LLMResponse> {
+    const response = await this.inner.generateCompletion(request);
+    report(response.usage);
+    return response;
+  }
+
+  async *generateCompletionStream(request: LLMRequest): AsyncGenerator<LLMStreamChunk> {
+    let usage: LLMUsage | undefined;
+    let output = '';
+
+    try {
+      for await (const chunk of this.inner.generateCompletionStream(request)) {
+        if (chunk.type === 'usage') {
+          usage = chunk.usage;
+          continue;
+        }
+
+        if (chunk.type === 'text') {
+          output += chunk.delta;
+        }
+        yield chunk;
+      }
+    } finally {
+      // Runs too when the consumer stops early, so a turn the client walked away from is still charged
+      if (usage) {
+        report(usage);
+      } else if (output) {
+        report(estimateUsage(request, output));
+      }
+    }
+  }
+
+  generateEmbedding(text: string): Promise<number[]> {
+    return this.inner.generateEmbedding(text);
+  }
+
+  generateEmbeddings(texts: string[]): Promise<number[][]> {
+    return this.inner.generateEmbeddings(texts);
+  }
+
+  healthCheck(): Promise<boolean> {
+    return this.inner.healthCheck();
+  }
+}
@@ -0,0 +1,339 @@
+import { config } from '@/config';
+import { ILLMService, LLMMessage, LLMRequest, LLMResponse, LLMStreamChunk, LLMToolCall, LLMUsage } from '@/types/llm';
+
+// Node 18+ ships fetch, but @types/node 20.8 doesn't declare it; this is the part used here
+interface FetchResponse {
+  ok: boolean;
+  status: number;
+  body: AsyncIterable<Uint8Array> | null;
+  text(): Promise<string>;
+  json(): Promise<unknown>;
+}
+
+type Fetch = (
+  url: string,
+  init: { method: string; headers: Record<string, string>; body?: string; signal: AbortSignal }
+) => Promise<FetchResponse>;
+
+const fetch = (globalThis as unknown as { fetch: Fetch }).fetch;
+
+// The fields read from OpenAI API responses; compatible servers may leave some out
+
+interface OpenAIUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  total_tokens?: number;
+}
+
+interface OpenAIChatCompletion {
+  model: string;
+  choices: Array<{
+    message?: {
+      content: string | null;
+      tool_calls?: Array<{ id: string; function: { name: string; arguments: string } }>;
+    };
+  }>;
+  usage?: OpenAIUsage;
+}
+
+interface OpenAIChatCompletionChunk {
+  choices?: Array<{
+    delta?: {
+      content?: string | null;
+      tool_calls?: Array<{ index: number; id?: string; function?: { name?: string; arguments?: string } }>;
+    };
+  }>;
+  usage?: OpenAIUsage | null;
+}
+
+interface OpenAIEmbeddingList {
+  data: Array<{ index: number; embedding: number[] }>;
+}
+
+/**
+ * Provider for any server speaking the OpenAI chat/embeddings HTTP API
+ * (OpenAI itself, vLLM, llama.cpp server, Ollama's /v1 endpoint).
+ */
+export class OpenAICompatibleService implements ILLMService {
+  public readonly provider = 'openai';
+  private baseUrl: string;
+  private apiKey: string;
+
+  constructor() {
+    this.baseUrl = config.openai.baseUrl;
+    this.apiKey = config.openai.apiKey || '';
+  }
+
+  async initialize(): Promise<void> {
+    console.log(`✅ OpenAI-compatible service initialized (${this.baseUrl}, model: ${config.openai.model})`);
+  }
+
+  async generateCompletion(request: LLMRequest): Promise<LLMResponse> {
+    try {
+      const data = await this.post<OpenAIChatCompletion>('/chat/completions', this.buildChatBody(request, false));
+      const message = data.choices[0]?.message;
+      const content = message?.content ?? '';
+      const toolCalls: LLMToolCall[] = (message?.tool_calls || []).map(call => ({
+        id: call.id,
+        name: call.function.name,
+        arguments: parseToolArguments(call.function.arguments),
+      }));
+
+      return {
+        content,
+        ...(toolCalls.length > 0 && { toolCalls }),
+        usage: toUsage(data.usage),
+        metadata: { model: data.model },
+      };
+    } catch (error) {
+      console.error('❌ Failed to generate completion:', error);
+      throw error;
+    }
+  }
+
+  async *generateCompletionStream(request: LLMRequest): AsyncGenerator<LLMStreamChunk> {
+    const controller = new AbortController();
+    const response = await this.request('/chat/completions', this.buildChatBody(request, true), 'POST', controller);
+    if (!response.body) {
+      throw new Error('OpenAI-compatible API returned no stream body');
+    }
+
+    // Tool calls arrive as fragments keyed by index; assemble them and emit once the stream ends
+    const pendingCalls = new Map<number, { id: string; name: string; arguments: string }>();
+    let usage: LLMUsage | undefined;
+
+    try {
+      for await (const payload of this.readEventStream<OpenAIChatCompletionChunk>(response.body, controller)) {
+        // With include_usage the last payload has no choices, only the totals
+        if (payload.usage) {
+          usage = toUsage(payload.usage);
+        }
+
+        const delta = payload.choices?.[0]?.delta;
+
+        if (delta?.content) {
+          yield { type: 'text', delta: delta.content };
+        }
+
+        for (const fragment of delta?.tool_calls || []) {
+          const call = pendingCalls.get(fragment.index) || { id: '', name: '', arguments: '' };
+          call.id = fragment.id || call.id;
+          call.name += fragment.function?.name || '';
+          call.arguments += fragment.function?.arguments || '';
+          pendingCalls.set(fragment.index, call);
+        }
+      }
+
+      if (pendingCalls.size > 0) {
+        yield {
+          type: 'tool_calls',
+          toolCalls: [...pendingCalls.entries()]
+            .sort(([a], [b]) => a - b)
+            .map(([index, call]) => ({
+              id: call.id || `${call.name}-${index}`,
+              name: call.name,
+              arguments: parseToolArguments(call.arguments),
+            })),
+        };
+      }
+
+      if (usage) {
+        yield { type: 'usage', usage };
+      }
+    } catch (error) {
+      console.error('❌ Failed to stream completion:', error);
+      throw error;
+    } finally {
+      // Releases the connection when the consumer stops reading early
+      controller.abort();
+    }
+  }
+
+  async generateEmbedding(text: string): Promise<number[]> {
+    const [embedding] = await this.generateEmbeddings([text]);
+    if (!embedding) {
+      throw new Error('Embedding endpoint returned no vectors');
+    }
+    return embedding;
+  }
+
+  async generateEmbeddings(texts: string[]): Promise<number[][]> {
+    try {
+      const data = await this.post<OpenAIEmbeddingList>('/embeddings', {
+        model: config.openai.embeddingModel,
+        input: texts,
+      });
+
+      // Responses carry an index per item; don't rely on ordering
+      return [...data.data]
+        .sort((a, b) => a.index - b.index)
+        .map(item => item.embedding);
+    } catch (error) {
+      console.error('❌ Failed to generate embeddings:', error);
+      throw error;
+    }
+  }
+
+  async healthCheck(): Promise<boolean> {
+    try {
+      await this.request('/models', undefined, 'GET');
+      return true;
+    } catch (error) {
+      console.error('❌ OpenAI-compatible health check failed:', error);
+      return false;
+    }
+  }
+
+  private buildChatBody(request: LLMRequest, stream: boolean) {
+    return {
+      model: config.openai.model,
+      messages: request.messages.map(message => this.toOpenAIMessage(message)),
+      ...(request.tools?.length && {
+        tools: request.tools.map(tool => ({
+          type: 'function',
+          function: {
+            name: tool.name,
+            description: tool.description,
+            parameters: tool.parameters,
+          },
+        })),
+      }),
+      temperature: request.temperature ?? config.llm.temperature,
+      max_tokens: request.maxTokens ?? config.llm.maxTokens,
+      ...(request.topP !== undefined && { top_p: request.topP }),
+      stream,
+      // Servers that don't know the option ignore it; usage is then estimated by the caller
+      ...(stream && { stream_options: { include_usage: true } }),
+    };
+  }
+
+  private toOpenAIMessage(message: LLMMessage) {
+    if (message.role === 'tool') {
+      return { role: 'tool', tool_call_id: message.toolCallId, content: message.content };
+    }
+
+    if (message.role === 'assistant' && message.toolCalls?.length) {
+      return {
+        role: 'assistant',
+        content: message.content || null,
+        tool_calls: message.toolCalls.map(call => ({
+          id: call.id,
+          type: 'function',
+          function: { name: call.name, arguments: JSON.stringify(call.arguments) },
+        })),
+      };
+    }
+
+    return { role: message.role, content: message.content };
+  }
+
+  private async post<T>(path: string, body: unknown): Promise<T> {
+    const response = await this.request(path, body);
+    return response.json() as Promise<T>;
+  }
+
+  // OPENAI_TIMEOUT_MS bounds the wait for the response headers only; reading the body is up to the caller
+  private async request(
+    path: string,
+    body?: unknown,
+    method = 'POST',
+    controller = new AbortController()
+  ): Promise<FetchResponse> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.apiKey) {
+      headers['Authorization'] = `Bearer ${this.apiKey}`;
+    }
+
+    const timeout = setTimeout(() => controller.abort(), config.openai.timeoutMs);
+    let response: FetchResponse;
+    try {
+      response = await fetch(`${this.baseUrl}${path}`, {
+        method,
+        headers,
+        ...(body !== undefined && { body: JSON.stringify(body) }),
+        signal: controller.signal,
+      });
+    } catch (error) {
+      if (controller.signal.aborted) {
+        throw new Error(`OpenAI-compatible API did not respond within ${config.openai.timeoutMs}ms`);
+      }
+      throw error;
+    } finally {
+      clearTimeout(timeout);
+    }
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`OpenAI-compatible API error: ${response.status} - ${errorText}`);
+    }
+
+    return response;
+  }
+
+  // Parse an SSE body ("data: {...}" lines, terminated by "data: [DONE]"). The request is aborted
+  // if the server goes quiet for OPENAI_STREAM_IDLE_TIMEOUT_MS; the clock only runs while waiting on it
+  private async *readEventStream<T>(body: AsyncIterable<Uint8Array>, controller: AbortController): AsyncGenerator<T> {
+    const idleTimeoutMs = config.openai.streamIdleTimeoutMs;
+    const chunks = body[Symbol.asyncIterator]();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    while (true) {
+      let idle = false;
+      const timeout = setTimeout(() => {
+        idle = true;
+        controller.abort();
+      }, idleTimeoutMs);
+
+      let next: IteratorResult<Uint8Array>;
+      try {
+        next = await chunks.next();
+      } catch (error) {
+        if (idle) {
+          throw new Error(`OpenAI-compatible stream sent nothing for ${idleTimeoutMs}ms`);
+        }
+        throw error;
+      } finally {
+        clearTimeout(timeout);
+      }
+
+      if (next.done) return;
+      buffer += decoder.decode(next.value, { stream: true });
+
+      let newlineIndex: number;
+      while ((newlineIndex = buffer.indexOf('\n')) >= 0) {
+        const line = buffer.slice(0, newlineIndex).trim();
+        buffer = buffer.slice(newlineIndex + 1);
+
+        if (!line.startsWith('data:')) continue;
+
+        const data = line.slice('data:'.length).trim();
+        if (data === '[DONE]') return;
+
+        yield JSON.parse(data) as T;
+      }
+    }
+  }
+}
+
+function toUsage(usage: OpenAIUsage | undefined): LLMUsage {
+  const promptTokens = usage?.prompt_tokens ?? 0;
+  const completionTokens = usage?.completion_tokens ?? 0;
+
+  return { promptTokens, completionTokens, totalTokens: usage?.total_tokens ?? promptTokens + completionTokens };
+}
+
+// Models occasionally emit malformed JSON arguments; treat them as empty
+// so the tool's own input validation reports the problem
+function parseToolArguments(raw: string | undefined): Record<string, unknown> {
+  if (!raw) {
+    return {};
+  }
+
+  try {
+    const parsed = JSON.parse(raw);
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch {
+    return {};
+  }
+}
\ No newline at end of file
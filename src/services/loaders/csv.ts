@@ -0,0 +1,32 @@
+import { parse } from 'csv-parse/sync';
+import { DocumentLoader, LoadedDocument } from '@/types/rag';
+
+export class CsvLoader implements DocumentLoader {
+  public readonly name = 'csv';
+  public readonly extensions = ['.csv'];
+  public readonly mimeTypes = ['text/csv', 'application/csv'];
+
+  // The header row names the fields; every following row becomes one "field: value" record
+  async load(data: Buffer): Promise<LoadedDocument> {
+    const rows: Record<string, string>[] = parse(data, {
+      columns: true,
+      bom: true,
+      trim: true,
+      skip_empty_lines: true,
+      relax_column_count: true,
+    });
+
+    return {
+      records: true,
+      sections: rows
+        .map((row, index) => ({
+          text: Object.entries(row)
+            .filter(([, value]) => value !== '' && value !== undefined)
+            .map(([field, value]) => `${field}: ${value}`)
+            .join('\n'),
+          metadata: { row: index + 1, record: row },
+        }))
+        .filter(section => section.text),
+    };
+  }
+}
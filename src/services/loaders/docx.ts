@@ -0,0 +1,15 @@
+import mammoth from 'mammoth';
+import { DocumentLoader, LoadedDocument } from '@/types/rag';
+import { htmlToMarkdown } from '@/services/loaders/html';
+
+export class DocxLoader implements DocumentLoader {
+  public readonly name = 'docx';
+  public readonly extensions = ['.docx'];
+  public readonly mimeTypes = ['application/vnd.openxmlformats-officedocument.wordprocessingml.document'];
+
+  // Word heading styles come out of mammoth as <h1>..<h6>, which become markdown headings
+  async load(data: Buffer): Promise<LoadedDocument> {
+    const result = await mammoth.convertToHtml({ buffer: data });
+    return { sections: [{ text: htmlToMarkdown(result.value) }] };
+  }
+}
@@ -0,0 +1,31 @@
+import TurndownService from 'turndown';
+import { DocumentLoader, LoadedDocument } from '@/types/rag';
+
+// HTML is converted to markdown so headings, lists and code survive into the chunker
+const turndown = new TurndownService({
+  headingStyle: 'atx',
+  codeBlockStyle: 'fenced',
+  bulletListMarker: '-',
+});
+turndown.remove(['script', 'style', 'noscript', 'iframe']);
+
+export function htmlToMarkdown(html: string): string {
+  return turndown.turndown(html);
+}
+
+export class HtmlLoader implements DocumentLoader {
+  public readonly name = 'html';
+  public readonly extensions = ['.html', '.htm'];
+  public readonly mimeTypes = ['text/html', 'application/xhtml+xml'];
+
+  async load(data: Buffer): Promise<LoadedDocument> {
+    const html = data.toString('utf-8');
+    const title = html.match(/<title[^>]*>([\s\S]*?)<\/title>/i)?.[1]?.trim();
+
+    return {
+      ...(title && { title }),
+      // Turndown still renders <title> text, so drop the whole head up front
+      sections: [{ text: htmlToMarkdown(html.replace(/<head[\s\S]*?<\/head>/i, '')) }],
+    };
+  }
+}
@@ -0,0 +1,61 @@
+import path from 'path';
+import { DocumentLoader, LoadedDocument } from '@/types/rag';
+import { MarkdownLoader } from '@/services/loaders/markdown';
+import { TextLoader } from '@/services/loaders/text';
+import { HtmlLoader } from '@/services/loaders/html';
+import { DocxLoader } from '@/services/loaders/docx';
+import { PdfLoader } from '@/services/loaders/pdf';
+import { CsvLoader } from '@/services/loaders/csv';
+
+// Loader registry, keyed by file extension and MIME type - add new formats here
+const byExtension = new Map<string, DocumentLoader>();
+const byMimeType = new Map<string, DocumentLoader>();
+
+export function registerLoader(loader: DocumentLoader): void {
+  loader.extensions.forEach(extension => byExtension.set(extension.toLowerCase(), loader));
+  loader.mimeTypes.forEach(mimeType => byMimeType.set(mimeType.toLowerCase(), loader));
+}
+
+[
+  new MarkdownLoader(),
+  new TextLoader(),
+  new HtmlLoader(),
+  new DocxLoader(),
+  new PdfLoader(),
+  new CsvLoader(),
+].forEach(registerLoader);
+
+// Extension wins; the MIME type is only consulted for files without a known extension
+export function getLoader(fileName: string, mimeType?: string): DocumentLoader | undefined {
+  const byExt = byExtension.get(path.extname(fileName).toLowerCase());
+  if (byExt || !mimeType) {
+    return byExt;
+  }
+
+  return byMimeType.get((mimeType.split(';')[0] || '').trim().toLowerCase());
+}
+
+export function isSupportedDocument(fileName: string): boolean {
+  return byExtension.has(path.extname(fileName).toLowerCase());
+}
+
+export function getSupportedExtensions(): string[] {
+  return [...byExtension.keys()].sort();
+}
+
+export async function loadDocument(data: Buffer, fileName: string, mimeType?: string): Promise<LoadedDocument> {
+  const loader = getLoader(fileName, mimeType);
+  if (!loader) {
+    throw new Error(`Unsupported document type: ${fileName}`);
+  }
+
+  try {
+    return await loader.load(data, fileName);
+  } catch (error) {
+    // Tagged so callers can tell a corrupt upload apart from an indexing failure
+    const reason = error instanceof Error ? error.message : String(error);
+    throw Object.assign(new Error(`Could not extract text from ${fileName}: ${reason}`), {
+      code: 'DOCUMENT_UNREADABLE',
+    });
+  }
+}
@@ -0,0 +1,11 @@
+import { DocumentLoader, LoadedDocument } from '@/types/rag';
+
+export class MarkdownLoader implements DocumentLoader {
+  public readonly name = 'markdown';
+  public readonly extensions = ['.md', '.markdown'];
+  public readonly mimeTypes = ['text/markdown', 'text/x-markdown'];
+
+  async load(data: Buffer): Promise<LoadedDocument> {
+    return { sections: [{ text: data.toString('utf-8') }] };
+  }
+}
@@ -0,0 +1,41 @@
+import pdfParse from 'pdf-parse';
+import { DocumentLoader, LoadedDocument } from '@/types/rag';
+
+export class PdfLoader implements DocumentLoader {
+  public readonly name = 'pdf';
+  public readonly extensions = ['.pdf'];
+  public readonly mimeTypes = ['application/pdf'];
+
+  // One section per page so chunks can carry metadata.page
+  async load(data: Buffer): Promise<LoadedDocument> {
+    const pages: string[] = [];
+
+    // pdf-parse awaits the render result even though its typings say string
+    const renderPage = async (pageData: any): Promise<string> => {
+      const textContent = await pageData.getTextContent({ normalizeWhitespace: true });
+
+      // Text items on the same baseline belong to the same line
+      let lastY: number | undefined;
+      let text = '';
+      for (const item of textContent.items) {
+        const y = item.transform[5];
+        text += lastY === undefined || y === lastY ? item.str : `\n${item.str}`;
+        lastY = y;
+      }
+
+      pages[pageData.pageNumber - 1] = text;
+      return text;
+    };
+
+    const result = await pdfParse(data, { pagerender: renderPage as unknown as (pageData: any) => string });
+
+    const title = typeof result.info?.Title === 'string' ? result.info.Title.trim() : '';
+
+    return {
+      ...(title && { title }),
+      sections: pages
+        .map((text, index) => ({ text: (text || '').replace(/[ \t]+/g, ' ').trim(), metadata: { page: index + 1 } }))
+        .filter(section => section.text),
+    };
+  }
+}
@@ -0,0 +1,11 @@
+import { DocumentLoader, LoadedDocument } from '@/types/rag';
+
+export class TextLoader implements DocumentLoader {
+  public readonly name = 'text';
+  public readonly extensions = ['.txt'];
+  public readonly mimeTypes = ['text/plain'];
+
+  async load(data: Buffer): Promise<LoadedDocument> {
+    return { sections: [{ text: data.toString('utf-8') }] };
+  }
+}
@@ -0,0 +1,77 @@
+import { AppendOptions, MemoryMessage, MemoryStats, MemoryStore, SessionMemory } from '@/types/memory';
+import { appendMessage, applySummary } from '@/services/memory-store/session';
+
+/**
+ * Process-local session store (default). Sessions are lost on restart and
+ * aren't shared between replicas.
+ */
+export class InMemoryStore implements MemoryStore {
+  public readonly name = 'memory';
+  private sessions = new Map<string, SessionMemory>();
+
+  async initialize(): Promise<void> {
+    console.log('✅ In-memory session store initialized');
+  }
+
+  async get(sessionId: string): Promise<SessionMemory | null> {
+    return this.sessions.get(sessionId) || null;
+  }
+
+  // Nothing awaits between the read and the write, so each update is atomic on the event loop
+  async append(sessionId: string, message: MemoryMessage, options: AppendOptions): Promise<number> {
+    const session = appendMessage(this.sessions.get(sessionId) || null, sessionId, message, options);
+    this.sessions.set(sessionId, session);
+    return session.pendingSummary?.length || 0;
+  }
+
+  async touch(sessionId: string): Promise<void> {
+    const session = this.sessions.get(sessionId);
+    if (session) {
+      this.sessions.set(sessionId, { ...session, lastAccessed: new Date() });
+    }
+  }
+
+  async saveSummary(sessionId: string, previous: string | undefined, summary: string, covered: number): Promise<boolean> {
+    const session = this.sessions.get(sessionId);
+    const updated = session && applySummary(session, previous, summary, covered);
+    if (!updated) {
+      return false;
+    }
+
+    this.sessions.set(sessionId, updated);
+    return true;
+  }
+
+  async delete(sessionId: string): Promise<void> {
+    this.sessions.delete(sessionId);
+  }
+
+  async deleteIdleSince(cutoff: Date): Promise<number> {
+    let deleted = 0;
+
+    for (const [sessionId, session] of this.sessions.entries()) {
+      if (session.lastAccessed.getTime() < cutoff.getTime()) {
+        this.sessions.delete(sessionId);
+        deleted++;
+      }
+    }
+
+    return deleted;
+  }
+
+  async getStats(): Promise<MemoryStats> {
+    let totalMessages = 0;
+    for (const session of this.sessions.values()) {
+      totalMessages += session.messages.length;
+    }
+
+    return {
+      totalSessions: this.sessions.size,
+      totalMessages,
+    };
+  }
+
+  async close(): Promise<void> {
+    this.sessions.clear();
+  }
+}
@@ -0,0 +1,23 @@
+import path from 'path';
+import { config } from '@/config';
+import { MemoryStore, MemoryStoreName } from '@/types/memory';
+import { InMemoryStore } from '@/services/memory-store/in-memory';
+import { SQLiteMemoryStore } from '@/services/memory-store/sqlite';
+import { RedisMemoryStore } from '@/services/memory-store/redis';
+
+// Session store registry - add new backends here
+const stores: Record<MemoryStoreName, () => MemoryStore> = {
+  memory: () => new InMemoryStore(),
+  sqlite: () => new SQLiteMemoryStore(path.resolve(config.memory.sqlitePath)),
+  redis: () => new RedisMemoryStore(config.redis.url, config.memory.redisKeyPrefix, config.memory.sessionTtl),
+};
+
+export function createMemoryStore(name: MemoryStoreName = config.memory.store): MemoryStore {
+  const factory = stores[name];
+  if (!factory) {
+    throw new Error(`Unknown memory store: ${name}`);
+  }
+
+  console.log(`💾 Using memory store: ${name}`);
+  return factory();
+}
@@ -0,0 +1,189 @@
+import Redis from 'ioredis';
+import { AppendOptions, MemoryMessage, MemoryStats, MemoryStore, SessionMemory } from '@/types/memory';
+import { deserializeMessage } from '@/services/memory-store/serialization';
+
+// KEYS: meta, messages, pending. Push, trim the window and queue what fell out in one step,
+// so concurrent appends from other replicas all land
+const APPEND_SCRIPT = `
+local now = ARGV[2]
+redis.call('HSETNX', KEYS[1], 'createdAt', now)
+redis.call('HSETNX', KEYS[1], 'maxMessages', ARGV[3])
+redis.call('HSET', KEYS[1], 'lastAccessed', now)
+local max = tonumber(redis.call('HGET', KEYS[1], 'maxMessages'))
+local length = redis.call('RPUSH', KEYS[2], ARGV[1])
+if length > max then
+  local evicted = redis.call('LRANGE', KEYS[2], 0, length - max - 1)
+  redis.call('LTRIM', KEYS[2], length - max, -1)
+  if ARGV[4] == '1' then
+    redis.call('RPUSH', KEYS[3], unpack(evicted))
+  end
+end
+for i = 1, #KEYS do
+  redis.call('EXPIRE', KEYS[i], ARGV[5])
+end
+return redis.call('LLEN', KEYS[3])
+`;
+
+// KEYS: meta, messages, pending
+const TOUCH_SCRIPT = `
+if redis.call('EXISTS', KEYS[1]) == 0 then
+  return 0
+end
+redis.call('HSET', KEYS[1], 'lastAccessed', ARGV[1])
+for i = 1, #KEYS do
+  redis.call('EXPIRE', KEYS[i], ARGV[2])
+end
+return 1
+`;
+
+// KEYS: meta, pending. Compare-and-set on the summary, then drop the pending messages it covers
+const SAVE_SUMMARY_SCRIPT = `
+if redis.call('EXISTS', KEYS[1]) == 0 then
+  return 0
+end
+local current = redis.call('HGET', KEYS[1], 'summary') or ''
+if current ~= ARGV[1] then
+  return 0
+end
+redis.call('HSET', KEYS[1], 'summary', ARGV[2])
+redis.call('HINCRBY', KEYS[1], 'summarizedMessages', ARGV[3])
+redis.call('LTRIM', KEYS[2], ARGV[3], -1)
+return 1
+`;
+
+const META_SUFFIX = ':meta';
+
+// The metadata hash as HGETALL returns it (empty when the session doesn't exist)
+type SessionFields = Partial<Record<'createdAt' | 'lastAccessed' | 'maxMessages' | 'summary' | 'summarizedMessages', string>>;
+
+/**
+ * Session store for any Redis-protocol server (Redis, Valkey, KeyDB, Dragonfly).
+ * Shared between replicas: each session is a hash of its metadata plus lists of
+ * its messages, updated by Lua scripts so writes never race. Every write
+ * refreshes the keys' TTL so idle sessions expire on the server without a sweep.
+ */
+export class RedisMemoryStore implements MemoryStore {
+  public readonly name = 'redis';
+  private client: Redis;
+  private keyPrefix: string;
+  private ttlSeconds: number;
+
+  constructor(url: string, keyPrefix: string, ttlSeconds: number) {
+    this.client = new Redis(url, { lazyConnect: true, maxRetriesPerRequest: 3 });
+    this.keyPrefix = keyPrefix;
+    this.ttlSeconds = ttlSeconds;
+  }
+
+  async initialize(): Promise<void> {
+    await this.client.connect();
+    console.log(`✅ Redis session store initialized (prefix: ${this.keyPrefix})`);
+  }
+
+  async get(sessionId: string): Promise<SessionMemory | null> {
+    const [meta, messages, pending] = this.keys(sessionId);
+    const results = await this.client
+      .multi()
+      .hgetall(meta)
+      .lrange(messages, 0, -1)
+      .lrange(pending, 0, -1)
+      .exec();
+
+    const [fields, messageList, pendingList] = (results || []).map(([error, value]) => {
+      if (error) throw error;
+      return value;
+    }) as [SessionFields, string[], string[]];
+
+    if (!fields?.createdAt) {
+      return null;
+    }
+
+    return {
+      sessionId,
+      messages: messageList.map(raw => deserializeMessage(JSON.parse(raw))),
+      createdAt: new Date(Number(fields.createdAt)),
+      lastAccessed: new Date(Number(fields.lastAccessed)),
+      maxMessages: Number(fields.maxMessages),
+      ...(fields.summary && { summary: fields.summary }),
+      ...(fields.summarizedMessages && { summarizedMessages: Number(fields.summarizedMessages) }),
+      ...(pendingList.length > 0 && { pendingSummary: pendingList.map(raw => deserializeMessage(JSON.parse(raw))) }),
+    };
+  }
+
+  async append(sessionId: string, message: MemoryMessage, options: AppendOptions): Promise<number> {
+    return await this.client.eval(
+      APPEND_SCRIPT, 3, ...this.keys(sessionId),
+      JSON.stringify(message), Date.now(), options.maxMessages, options.keepEvicted ? '1' : '0', this.ttlSeconds
+    ) as number;
+  }
+
+  async touch(sessionId: string): Promise<void> {
+    await this.client.eval(TOUCH_SCRIPT, 3, ...this.keys(sessionId), Date.now(), this.ttlSeconds);
+  }
+
+  async saveSummary(sessionId: string, previous: string | undefined, summary: string, covered: number): Promise<boolean> {
+    const [meta, , pending] = this.keys(sessionId);
+    const saved = await this.client.eval(SAVE_SUMMARY_SCRIPT, 2, meta, pending, previous || '', summary, covered);
+    return saved === 1;
+  }
+
+  async delete(sessionId: string): Promise<void> {
+    await this.client.del(...this.keys(sessionId));
+  }
+
+  // Keys already expire via TTL; this only matters when the caller asks for a
+  // shorter idle window than the configured TTL
+  async deleteIdleSince(cutoff: Date): Promise<number> {
+    let deleted = 0;
+
+    for await (const sessionIds of this.scanSessionIds()) {
+      const pipeline = this.client.pipeline();
+      sessionIds.forEach(sessionId => pipeline.hget(this.keys(sessionId)[0], 'lastAccessed'));
+      const results = (await pipeline.exec()) || [];
+
+      const idle = sessionIds.filter((_, index) => Number(results[index]?.[1]) < cutoff.getTime());
+      if (idle.length > 0) {
+        await this.client.del(...idle.flatMap(sessionId => this.keys(sessionId)));
+        deleted += idle.length;
+      }
+    }
+
+    return deleted;
+  }
+
+  async getStats(): Promise<MemoryStats> {
+    let totalSessions = 0;
+    let totalMessages = 0;
+
+    for await (const sessionIds of this.scanSessionIds()) {
+      const pipeline = this.client.pipeline();
+      sessionIds.forEach(sessionId => pipeline.llen(this.keys(sessionId)[1]));
+      const results = (await pipeline.exec()) || [];
+
+      totalSessions += sessionIds.length;
+      totalMessages += results.reduce((sum, [, length]) => sum + Number(length || 0), 0);
+    }
+
+    return { totalSessions, totalMessages };
+  }
+
+  async close(): Promise<void> {
+    await this.client.quit();
+  }
+
+  // [metadata hash, message list, pending summary list]
+  private keys(sessionId: string): [string, string, string] {
+    const base = `${this.keyPrefix}${sessionId}`;
+    return [`${base}${META_SUFFIX}`, `${base}:messages`, `${base}:pending`];
+  }
+
+  // Iterate stored session ids in SCAN-sized pages
+  private async *scanSessionIds(): AsyncGenerator<string[]> {
+    const stream = this.client.scanStream({ match: `${this.keyPrefix}*${META_SUFFIX}`, count: 100 });
+
+    for await (const keys of stream as AsyncIterable<string[]>) {
+      if (keys.length === 0) continue;
+
+      yield keys.map(key => key.slice(this.keyPrefix.length, -META_SUFFIX.length));
+    }
+  }
+}
@@ -0,0 +1,26 @@
+import { MemoryMessage, SessionMemory } from '@/types/memory';
+
+// Sessions are stored as JSON by the persistent backends; Dates need reviving on the way out
+
+export function serializeSession(session: SessionMemory): string {
+  return JSON.stringify(session);
+}
+
+export function deserializeSession(raw: string): SessionMemory {
+  const parsed = JSON.parse(raw);
+
+  return {
+    ...parsed,
+    createdAt: new Date(parsed.createdAt),
+    lastAccessed: new Date(parsed.lastAccessed),
+    messages: parsed.messages.map(deserializeMessage),
+    ...(parsed.pendingSummary && { pendingSummary: parsed.pendingSummary.map(deserializeMessage) }),
+  };
+}
+
+export function deserializeMessage(message: any): MemoryMessage {
+  return {
+    ...message,
+    timestamp: new Date(message.timestamp),
+  };
+}
@@ -0,0 +1,51 @@
+import { AppendOptions, MemoryMessage, SessionMemory } from '@/types/memory';
+
+// The session updates behind MemoryStore's writes, for the stores that keep sessions whole.
+// Both return a new session; the store applies them inside its own atomic step.
+
+export function appendMessage(
+  session: SessionMemory | null,
+  sessionId: string,
+  message: MemoryMessage,
+  options: AppendOptions
+): SessionMemory {
+  const now = new Date();
+  const current = session || {
+    sessionId,
+    messages: [],
+    createdAt: now,
+    lastAccessed: now,
+    maxMessages: options.maxMessages,
+  };
+
+  const messages = [...current.messages, message];
+  const evicted = messages.splice(0, Math.max(messages.length - current.maxMessages, 0));
+
+  return {
+    ...current,
+    messages,
+    lastAccessed: now,
+    ...(options.keepEvicted && evicted.length > 0 && {
+      pendingSummary: [...(current.pendingSummary || []), ...evicted],
+    }),
+  };
+}
+
+// null when the summary changed since it was read, i.e. someone else folded these messages in first
+export function applySummary(
+  session: SessionMemory,
+  previous: string | undefined,
+  summary: string,
+  covered: number
+): SessionMemory | null {
+  if (session.summary !== previous) {
+    return null;
+  }
+
+  return {
+    ...session,
+    summary,
+    summarizedMessages: (session.summarizedMessages || 0) + covered,
+    pendingSummary: (session.pendingSummary || []).slice(covered),
+  };
+}
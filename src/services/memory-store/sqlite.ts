@@ -0,0 +1,140 @@
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { AppendOptions, MemoryMessage, MemoryStats, MemoryStore, SessionMemory } from '@/types/memory';
+import { serializeSession, deserializeSession } from '@/services/memory-store/serialization';
+import { appendMessage, applySummary } from '@/services/memory-store/session';
+
+/**
+ * File-based session store. Survives restarts; suitable for a single replica
+ * (or several sharing a volume, since SQLite handles the locking).
+ */
+export class SQLiteMemoryStore implements MemoryStore {
+  public readonly name = 'sqlite';
+  private db: Database.Database | null = null;
+  private filePath: string;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  async initialize(): Promise<void> {
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+
+    this.db = new Database(this.filePath);
+    this.db.pragma('journal_mode = WAL');
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS sessions (
+        session_id TEXT PRIMARY KEY,
+        data TEXT NOT NULL,
+        message_count INTEGER NOT NULL,
+        last_accessed INTEGER NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_sessions_last_accessed ON sessions (last_accessed);
+    `);
+
+    console.log(`✅ SQLite session store initialized (${this.filePath})`);
+  }
+
+  async get(sessionId: string): Promise<SessionMemory | null> {
+    return this.read(sessionId);
+  }
+
+  // Read-modify-write in an IMMEDIATE transaction, which takes the write lock up front so
+  // processes sharing the file queue behind each other instead of overwriting
+  async append(sessionId: string, message: MemoryMessage, options: AppendOptions): Promise<number> {
+    const append = this.getDb().transaction(() => {
+      const session = appendMessage(this.read(sessionId), sessionId, message, options);
+      this.write(session);
+      return session.pendingSummary?.length || 0;
+    });
+
+    return append.immediate();
+  }
+
+  async touch(sessionId: string): Promise<void> {
+    const now = new Date();
+    this.getDb()
+      .prepare(`
+        UPDATE sessions SET last_accessed = ?, data = json_set(data, '$.lastAccessed', ?)
+        WHERE session_id = ?
+      `)
+      .run(now.getTime(), now.toISOString(), sessionId);
+  }
+
+  async saveSummary(sessionId: string, previous: string | undefined, summary: string, covered: number): Promise<boolean> {
+    const save = this.getDb().transaction(() => {
+      const session = this.read(sessionId);
+      const updated = session && applySummary(session, previous, summary, covered);
+      if (!updated) {
+        return false;
+      }
+
+      this.write(updated);
+      return true;
+    });
+
+    return save.immediate();
+  }
+
+  async delete(sessionId: string): Promise<void> {
+    this.getDb().prepare('DELETE FROM sessions WHERE session_id = ?').run(sessionId);
+  }
+
+  async deleteIdleSince(cutoff: Date): Promise<number> {
+    const result = this.getDb()
+      .prepare('DELETE FROM sessions WHERE last_accessed < ?')
+      .run(cutoff.getTime());
+
+    return result.changes;
+  }
+
+  async getStats(): Promise<MemoryStats> {
+    const row = this.getDb()
+      .prepare('SELECT COUNT(*) AS sessions, COALESCE(SUM(message_count), 0) AS messages FROM sessions')
+      .get() as { sessions: number; messages: number };
+
+    return {
+      totalSessions: row.sessions,
+      totalMessages: row.messages,
+    };
+  }
+
+  async close(): Promise<void> {
+    this.db?.close();
+    this.db = null;
+  }
+
+  private read(sessionId: string): SessionMemory | null {
+    const row = this.getDb()
+      .prepare('SELECT data FROM sessions WHERE session_id = ?')
+      .get(sessionId) as { data: string } | undefined;
+
+    return row ? deserializeSession(row.data) : null;
+  }
+
+  private write(session: SessionMemory): void {
+    this.getDb()
+      .prepare(`
+        INSERT INTO sessions (session_id, data, message_count, last_accessed)
+        VALUES (@sessionId, @data, @messageCount, @lastAccessed)
+        ON CONFLICT (session_id) DO UPDATE SET
+          data = excluded.data,
+          message_count = excluded.message_count,
+          last_accessed = excluded.last_accessed
+      `)
+      .run({
+        sessionId: session.sessionId,
+        data: serializeSession(session),
+        messageCount: session.messages.length,
+        lastAccessed: session.lastAccessed.getTime(),
+      });
+  }
+
+  private getDb(): Database.Database {
+    if (!this.db) {
+      throw new Error('SQLite session store not initialized');
+    }
+    return this.db;
+  }
+}
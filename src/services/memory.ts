@@ -3,22 +3,36 @@ import {
   IMemoryService,
   SessionMemory,
   MemoryMessage,
+  MemoryStats,
+  MemoryStore,
   MemorySummary
 } from '@/types/memory';
 import { config } from '@/config';
+import { ConversationSummarizer } from '@/services/summarizer';
+import { countTokens } from '@/services/tokenizers';
 
 export class MemoryService implements IMemoryService {
-  private sessions = new Map<string, SessionMemory>();
+  private store: MemoryStore;
+  private summarizer: ConversationSummarizer | null;
+  // Per-session chain of background summary passes
+  private summaries = new Map<string, Promise<void>>();
   private cleanupInterval: NodeJS.Timeout;
 
-  constructor() {
+  constructor(store: MemoryStore, summarizer: ConversationSummarizer | null = null) {
+    this.store = store;
+    this.summarizer = summarizer;
+
     // Start cleanup interval
     this.cleanupInterval = setInterval(
-      () => this.cleanupOldSessions(),
+      () => this.cleanupOldSessions().catch(error => console.error('❌ Session cleanup failed:', error)),
       config.memory.cleanupInterval
     );
   }
 
+  async initialize(): Promise<void> {
+    await this.store.initialize();
+  }
+
   async addMessage(
     sessionId: string,
     role: 'user' | 'assistant',
@@ -31,34 +45,24 @@ export class MemoryService implements IMemoryService {
       timestamp: new Date(),
     };
 
-    let session = this.sessions.get(sessionId);
+    // Appended and trimmed in one atomic step on the store; the summary catches up in the background
+    const pending = await this.store.append(sessionId, message, {
+      maxMessages: config.memory.maxMessages,
+      keepEvicted: this.summarizer !== null,
+    });
 
-    if (!session) {
-      session = {
-        sessionId,
-        messages: [],
-        createdAt: new Date(),
-        lastAccessed: new Date(),
-        maxMessages: config.memory.maxMessages,
-      };
-      this.sessions.set(sessionId, session);
-    }
-
-    session.messages.push(message);
-    session.lastAccessed = new Date();
-
-    // Keep only the last N messages
-    if (session.messages.length > session.maxMessages) {
-      session.messages = session.messages.slice(-session.maxMessages);
+    if (pending > 0) {
+      this.scheduleSummary(sessionId);
     }
   }
 
   async getMemory(sessionId: string): Promise<SessionMemory | null> {
-    const session = this.sessions.get(sessionId);
+    const session = await this.store.get(sessionId);
     if (session) {
-      session.lastAccessed = new Date();
+      // Reading a session counts as activity and pushes back its expiry
+      await this.store.touch(sessionId);
     }
-    return session || null;
+    return session;
   }
 
   async getSummary(sessionId: string, messageCount = 2): Promise<MemorySummary> {
@@ -81,64 +85,106 @@ export class MemoryService implements IMemoryService {
       lastMessages,
       totalMessages: session.messages.length,
       sessionAge,
+      ...(session.summary && { summary: session.summary }),
     };
   }
 
   async clearMemory(sessionId: string): Promise<void> {
-    this.sessions.delete(sessionId);
+    await this.store.delete(sessionId);
   }
 
-  async cleanupOldSessions(maxAgeMinutes = 1440): Promise<void> { // 24 hours default
-    const cutoff = Date.now() - (maxAgeMinutes * 60 * 1000);
-    const sessionsToDelete: string[] = [];
+  // Sessions idle for longer than MEMORY_SESSION_TTL are removed; maxAgeMinutes overrides it
+  async cleanupOldSessions(maxAgeMinutes?: number): Promise<void> {
+    const maxAgeMs = maxAgeMinutes !== undefined
+      ? maxAgeMinutes * 60 * 1000
+      : config.memory.sessionTtl * 1000;
+
+    const deleted = await this.store.deleteIdleSince(new Date(Date.now() - maxAgeMs));
 
-    for (const [sessionId, session] of this.sessions.entries()) {
-      if (session.lastAccessed.getTime() < cutoff) {
-        sessionsToDelete.push(sessionId);
-      }
+    if (deleted > 0) {
+      console.log(`Cleaned up ${deleted} old sessions`);
     }
+  }
 
-    for (const sessionId of sessionsToDelete) {
-      this.sessions.delete(sessionId);
+  // Prompt-ready memory: the running summary plus as many recent turns as fit in the token budget
+  async getFormattedSummary(sessionId: string, tokenBudget = config.memory.promptTokenBudget): Promise<string> {
+    const session = await this.getMemory(sessionId);
+
+    if (!session || (session.messages.length === 0 && !session.summary && !session.pendingSummary?.length)) {
+      return 'No previous conversation history.';
     }
 
-    if (sessionsToDelete.length > 0) {
-      console.log(`Cleaned up ${sessionsToDelete.length} old sessions`);
+    // The summary is charged against the budget first, then turns are added newest to oldest
+    // Evicted turns the summary doesn't cover yet are still offered, as the oldest
+    let remaining = tokenBudget - (session.summary ? countTokens(session.summary) : 0);
+    const candidates = [...(session.pendingSummary || []), ...session.messages];
+    const recentMessages: MemoryMessage[] = [];
+
+    for (let i = candidates.length - 1; i >= 0; i--) {
+      const msg = candidates[i] as MemoryMessage;
+      const cost = countTokens(`${msg.role}: ${msg.content}`);
+      if (cost > remaining) break;
+
+      recentMessages.unshift(msg);
+      remaining -= cost;
     }
-  }
 
-  // Utility method to get memory summary as formatted string
-  async getFormattedSummary(sessionId: string, messageCount = 2): Promise<string> {
-    const summary = await this.getSummary(sessionId, messageCount);
+    const sections: string[] = [];
 
-    if (summary.lastMessages.length === 0) {
-      return 'No previous conversation history.';
+    if (session.summary) {
+      sections.push(`Summary of earlier conversation (${session.summarizedMessages || 0} messages):\n${session.summary}`);
     }
 
-    const formattedMessages = summary.lastMessages
-      .map(msg => `${msg.role}: ${msg.content}`)
-      .join('\n');
+    if (recentMessages.length > 0) {
+      const formattedMessages = recentMessages
+        .map(msg => `${msg.role}: ${msg.content}`)
+        .join('\n');
+      sections.push(`Previous conversation (last ${recentMessages.length} messages):\n${formattedMessages}`);
+    }
 
-    return `Previous conversation (last ${summary.lastMessages.length} messages):\n${formattedMessages}`;
+    return sections.join('\n\n') || 'No previous conversation history.';
   }
 
-  // Get statistics
-  getStats(): { totalSessions: number; totalMessages: number } {
-    let totalMessages = 0;
-    for (const session of this.sessions.values()) {
-      totalMessages += session.messages.length;
+  // Summaries run off the request path so no reply waits on them, one pass at a time per session;
+  // each pass takes whatever has been evicted by then
+  private scheduleSummary(sessionId: string): void {
+    const previous = this.summaries.get(sessionId) || Promise.resolve();
+    const next = previous
+      .then(() => this.summarizePending(sessionId))
+      .catch(error => console.error(`❌ Failed to summarize session ${sessionId}:`, error))
+      .finally(() => {
+        if (this.summaries.get(sessionId) === next) {
+          this.summaries.delete(sessionId);
+        }
+      });
+
+    this.summaries.set(sessionId, next);
+  }
+
+  // Fold the messages evicted from the window into the running summary. The LLM call runs outside
+  // any store update, so the result is only saved if nobody replaced the summary meanwhile
+  private async summarizePending(sessionId: string): Promise<void> {
+    const session = await this.store.get(sessionId);
+    const pending = session?.pendingSummary;
+    if (!this.summarizer || !session || !pending?.length) {
+      return;
     }
 
-    return {
-      totalSessions: this.sessions.size,
-      totalMessages,
-    };
+    const summary = await this.summarizer.summarize(session.summary, pending);
+    await this.store.saveSummary(sessionId, session.summary, summary, pending.length);
+  }
+
+  // Get statistics
+  async getStats(): Promise<MemoryStats> {
+    return this.store.getStats();
   }
 
   // Cleanup on shutdown
-  destroy(): void {
+  async destroy(): Promise<void> {
     if (this.cleanupInterval) {
       clearInterval(this.cleanupInterval);
     }
+    await Promise.allSettled(this.summaries.values());
+    await this.store.close();
   }
 }
\ No newline at end of file
@@ -1,39 +1,234 @@
-import { Plugin, PluginResult } from '@/types/plugins';
+import fs from 'fs/promises';
+import path from 'path';
+import { pathToFileURL } from 'url';
+import { z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { config, getPluginSettings } from '@/config';
+import { IPluginRouter, Plugin, PluginFactory, PluginInfo, PluginResult } from '@/types/plugins';
+import { LLMToolDefinition } from '@/types/llm';
 import { WeatherPlugin } from '@/services/plugins/weather';
 import { MathPlugin } from '@/services/plugins/math';
 
-export class PluginManager {
-  private plugins: Plugin[];
-
-  constructor() {
-    this.plugins = [
-      new WeatherPlugin(),
-      new MathPlugin(),
-    ];
-  }
-
-  async detectAndExecutePlugins(message: string): Promise<PluginResult[]> {
-    const results: PluginResult[] = [];
-
-    for (const plugin of this.plugins) {
-      if (plugin.detectIntent(message)) {
-        try {
-          const result = await plugin.execute(message);
-          results.push(result);
-        } catch (error) {
-          results.push({
-            name: plugin.name,
-            success: false,
-            error: error instanceof Error ? error.message : 'Unknown error',
-          });
-        }
+interface RegisteredPlugin {
+  plugin: Plugin;
+  enabled: boolean;
+  source: string;
+}
+
+// Plugins shipped with the server, keyed by their settings namespace
+const builtinPlugins: Record<string, PluginFactory> = {
+  weather: (settings) => new WeatherPlugin(settings['apiKey'] || config.weather.apiKey || ''),
+  math: () => new MathPlugin(),
+};
+
+// TypeScript plugins only load when the server itself runs from source (tsx); built output runs on plain Node
+const RUNNING_FROM_SOURCE = path.extname(__filename) === '.ts';
+const PLUGIN_FILE_EXTENSIONS = ['.js', '.cjs', '.mjs', ...(RUNNING_FROM_SOURCE ? ['.ts'] : [])];
+
+// A real dynamic import: under "module": "commonjs" tsc compiles import() to require(),
+// which can't load ES modules (ERR_REQUIRE_ESM)
+const importModule = new Function('specifier', 'return import(specifier)') as (specifier: string) => Promise<any>;
+
+export class PluginManager implements IPluginRouter {
+  private plugins = new Map<string, RegisteredPlugin>();
+
+  // Register built-ins, then anything found in PLUGIN_DIRS and PLUGIN_PACKAGES.
+  // A module that fails to load is logged and skipped so one bad plugin can't stop startup.
+  async loadPlugins(): Promise<void> {
+    for (const [name, factory] of Object.entries(builtinPlugins)) {
+      await this.registerFromFactory(factory, name, 'builtin');
+    }
+
+    for (const dir of config.plugins.dirs) {
+      await this.loadFromDirectory(path.resolve(dir));
+    }
+
+    for (const packageName of config.plugins.packages) {
+      await this.loadFromModule(packageName, path.basename(packageName), `package:${packageName}`);
+    }
+
+    for (const name of config.plugins.disabled) {
+      this.setPluginEnabled(name, false);
+    }
+
+    console.log(`🔌 Plugins loaded: ${this.listPlugins().map(p => `${p.name}${p.enabled ? '' : ' (disabled)'}`).join(', ') || 'none'}`);
+  }
+
+  registerPlugin(plugin: Plugin, source: string = 'runtime'): void {
+    if (this.plugins.has(plugin.name)) {
+      console.warn(`⚠️ Plugin '${plugin.name}' is already registered, replacing it`);
+    }
+
+    this.plugins.set(plugin.name, { plugin, enabled: true, source });
+  }
+
+  unregisterPlugin(name: string): boolean {
+    return this.plugins.delete(name);
+  }
+
+  setPluginEnabled(name: string, enabled: boolean): boolean {
+    const entry = this.plugins.get(name);
+    if (!entry) {
+      return false;
+    }
+
+    entry.enabled = enabled;
+    return true;
+  }
+
+  async executePlugin(pluginName: string, input: unknown): Promise<PluginResult> {
+    return this.executeTool(pluginName, input);
+  }
+
+  getAvailablePlugins(): Plugin[] {
+    return this.enabledPlugins();
+  }
+
+  listPlugins(): PluginInfo[] {
+    return [...this.plugins.values()].map(({ plugin, enabled, source }) => ({
+      name: plugin.name,
+      description: plugin.description,
+      enabled,
+      source,
+      inputSchema: this.toJsonSchema(plugin.inputSchema),
+      outputSchema: this.toJsonSchema(plugin.outputSchema),
+    }));
+  }
+
+  // Describe every plugin as a tool the LLM can call
+  getToolDefinitions(): LLMToolDefinition[] {
+    return this.enabledPlugins().map(plugin => ({
+      name: plugin.name,
+      description: plugin.description,
+      parameters: this.toJsonSchema(plugin.inputSchema),
+    }));
+  }
+
+  async executeTool(name: string, args: unknown): Promise<PluginResult> {
+    const entry = this.plugins.get(name);
+    if (!entry) {
+      return {
+        name,
+        success: false,
+        error: `Unknown tool: ${name}`,
+      };
+    }
+
+    if (!entry.enabled) {
+      return {
+        name,
+        success: false,
+        error: `Plugin '${name}' is disabled`,
+      };
+    }
+
+    const { plugin } = entry;
+
+    const input = plugin.inputSchema.safeParse(args);
+    if (!input.success) {
+      return {
+        name: plugin.name,
+        success: false,
+        error: `Invalid input: ${this.formatIssues(input.error)}`,
+      };
+    }
+
+    try {
+      const output = await plugin.execute(input.data);
+      return {
+        name: plugin.name,
+        success: true,
+        data: plugin.outputSchema.parse(output),
+      };
+    } catch (error) {
+      return {
+        name: plugin.name,
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  }
+
+  // Render a result for the LLM using the owning plugin's formatter
+  formatForPrompt(result: PluginResult): string {
+    if (!result.success) {
+      return `${result.name} failed: ${result.error}`;
+    }
+
+    const entry = this.plugins.get(result.name);
+    return entry ? entry.plugin.formatForPrompt(result.data) : JSON.stringify(result.data);
+  }
+
+  private enabledPlugins(): Plugin[] {
+    return [...this.plugins.values()]
+      .filter(entry => entry.enabled)
+      .map(entry => entry.plugin);
+  }
+
+  private async loadFromDirectory(dir: string): Promise<void> {
+    let files: string[];
+    try {
+      files = await fs.readdir(dir);
+    } catch (error) {
+      console.error(`❌ Failed to read plugin directory ${dir}:`, error);
+      return;
+    }
+
+    const moduleFiles = files.filter(file =>
+      PLUGIN_FILE_EXTENSIONS.includes(path.extname(file)) && !file.endsWith('.d.ts')
+    );
+
+    for (const file of moduleFiles) {
+      const name = path.basename(file, path.extname(file));
+      await this.loadFromModule(pathToFileURL(path.join(dir, file)).href, name, `file:${path.join(dir, file)}`);
+    }
+  }
+
+  private async loadFromModule(specifier: string, settingsName: string, source: string): Promise<void> {
+    try {
+      const pluginModule = await importModule(specifier);
+      const factory: unknown = pluginModule.createPlugin ?? pluginModule.default?.createPlugin ?? pluginModule.default;
+
+      if (typeof factory !== 'function') {
+        throw new Error('Module must export a createPlugin(settings) function');
+      }
+
+      await this.registerFromFactory(factory as PluginFactory, settingsName, source);
+    } catch (error) {
+      console.error(`❌ Failed to load plugin from ${source}:`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  private async registerFromFactory(factory: PluginFactory, settingsName: string, source: string): Promise<void> {
+    const created = await factory(getPluginSettings(settingsName));
+    const plugins = Array.isArray(created) ? created : [created];
+
+    for (const plugin of plugins) {
+      if (!this.isPlugin(plugin)) {
+        throw new Error(`Factory from ${source} returned an object that is not a valid Plugin`);
       }
+      this.registerPlugin(plugin, source);
     }
+  }
+
+  private isPlugin(candidate: unknown): candidate is Plugin {
+    const plugin = candidate as Partial<Plugin> | null;
+    return !!plugin
+      && typeof plugin.name === 'string'
+      && typeof plugin.execute === 'function'
+      && typeof plugin.formatForPrompt === 'function'
+      // Duck-typed: external plugins may bundle their own copy of zod
+      && typeof plugin.inputSchema?.safeParse === 'function'
+      && typeof plugin.outputSchema?.parse === 'function';
+  }
 
-    return results;
+  private toJsonSchema(schema: z.ZodTypeAny): Record<string, unknown> {
+    return zodToJsonSchema(schema, { target: 'openApi3', $refStrategy: 'none' }) as Record<string, unknown>;
   }
 
-  getAvailablePlugins(): string[] {
-    return this.plugins.map(plugin => plugin.name);
+  private formatIssues(error: z.ZodError): string {
+    return error.issues
+      .map(issue => `${issue.path.join('.') || 'input'}: ${issue.message}`)
+      .join('; ');
   }
 }
\ No newline at end of file
@@ -1,47 +1,33 @@
 import { evaluate } from 'mathjs';
-import { Plugin, PluginResult } from '@/types/plugins';
+import { z } from 'zod';
+import { Plugin } from '@/types/plugins';
 
-export interface MathResult {
-  expression: string;
-  result: number;
-  timestamp: string;
-}
+export const MathInputSchema = z.object({
+  expression: z.string().min(1).describe('Arithmetic expression to evaluate, e.g. "(3 + 4) * 2"'),
+});
 
-export class MathPlugin implements Plugin {
-  public readonly name = 'math';
-  public readonly description = 'Evaluate mathematical expressions safely';
-  detectIntent(message: string): boolean {
-    const mathMatch = message.match(/(\d+(?:\s*[\+\-\*\/]\s*\d+)+)/);
-    return !!mathMatch;
-  }
+export const MathResultSchema = z.object({
+  expression: z.string(),
+  result: z.number(),
+  timestamp: z.string(),
+});
 
-  async execute(message: string): Promise<PluginResult> {
-    const mathMatch = message.match(/(\d+(?:\s*[\+\-\*\/]\s*\d+)+)/);
-    if (!mathMatch) {
-      return {
-        name: this.name,
-        success: false,
-        error: 'No mathematical expression found in message',
-      };
-    }
+export type MathInput = z.infer<typeof MathInputSchema>;
+export type MathResult = z.infer<typeof MathResultSchema>;
 
-    const expression = mathMatch[1];
-    console.log(`🧮 Math plugin detected for expression: ${expression}`);
+export class MathPlugin implements Plugin<MathInput, MathResult> {
+  public readonly name = 'math';
+  public readonly description = 'Evaluate a mathematical expression safely (numbers, + - * /, parentheses)';
+  public readonly inputSchema = MathInputSchema;
+  public readonly outputSchema = MathResultSchema;
 
-    try {
-      const mathResult = await this.evaluate(expression || '');
-      return {
-        name: this.name,
-        success: true,
-        data: mathResult,
-      };
-    } catch (error) {
-      return {
-        name: this.name,
-        success: false,
-        error: error instanceof Error ? error.message : 'Unknown error',
-      };
-    }
+  async execute(input: MathInput): Promise<MathResult> {
+    console.log(`🧮 Math plugin called for expression: ${input.expression}`);
+    return this.evaluate(input.expression);
+  }
+
+  formatForPrompt(output: MathResult): string {
+    return `Expression: ${output.expression}\nResult: ${output.result}`;
   }
 
   private async evaluate(expression: string): Promise<MathResult> {
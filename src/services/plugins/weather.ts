@@ -1,56 +1,47 @@
-export interface WeatherData {
-  temperature: number;
-  condition: string;
-  location: string;
-  timestamp: string;
-  humidity?: number;
-  windSpeed?: number;
-}
-
-import { Plugin, PluginResult } from '@/types/plugins';
+import { z } from 'zod';
+import { Plugin } from '@/types/plugins';
 import { config } from '@/config';
 
-export class WeatherPlugin implements Plugin {
+export const WeatherInputSchema = z.object({
+  city: z.string().trim().min(1).describe('City name, e.g. "Paris" or "New York"'),
+});
+
+export const WeatherDataSchema = z.object({
+  temperature: z.number(),
+  condition: z.string(),
+  location: z.string(),
+  timestamp: z.string(),
+  humidity: z.number().optional(),
+  windSpeed: z.number().optional(),
+});
+
+export type WeatherInput = z.infer<typeof WeatherInputSchema>;
+export type WeatherData = z.infer<typeof WeatherDataSchema>;
+
+export class WeatherPlugin implements Plugin<WeatherInput, WeatherData> {
   public readonly name = 'weather';
-  public readonly description = 'Get weather information for cities';
+  public readonly description = 'Get the current weather for a city';
+  public readonly inputSchema = WeatherInputSchema;
+  public readonly outputSchema = WeatherDataSchema;
   private apiKey: string;
 
-  constructor() {
-    this.apiKey = config.weather.apiKey || '';
+  constructor(apiKey: string = config.weather.apiKey || '') {
+    this.apiKey = apiKey;
   }
 
-  detectIntent(message: string): boolean {
-    const weatherMatch = message.match(/weather\s+(?:in\s+)?([a-zA-Z\s]+)/i);
-    return !!weatherMatch;
+  async execute(input: WeatherInput): Promise<WeatherData> {
+    console.log(`🌤️ Weather plugin called for city: ${input.city}`);
+    return this.getWeather(input.city);
   }
 
-  async execute(message: string): Promise<PluginResult> {
-    const weatherMatch = message.match(/weather\s+(?:in\s+)?([a-zA-Z\s]+)/i);
-    if (!weatherMatch) {
-      return {
-        name: this.name,
-        success: false,
-        error: 'No city found in message',
-      };
-    }
-
-    const city = weatherMatch[1]?.trim() || '';
-    console.log(`🌤️ Weather plugin detected for city: ${city}`);
-
-    try {
-      const weatherData = await this.getWeather(city);
-      return {
-        name: this.name,
-        success: true,
-        data: weatherData,
-      };
-    } catch (error) {
-      return {
-        name: this.name,
-        success: false,
-        error: error instanceof Error ? error.message : 'Unknown error',
-      };
-    }
+  formatForPrompt(output: WeatherData): string {
+    return [
+      `Location: ${output.location}`,
+      `Temperature: ${output.temperature}°C`,
+      `Condition: ${output.condition}`,
+      ...(output.humidity !== undefined ? [`Humidity: ${output.humidity}%`] : []),
+      ...(output.windSpeed !== undefined ? [`Wind Speed: ${output.windSpeed} km/h`] : []),
+    ].join('\n');
   }
 
   private async getWeather(city: string): Promise<WeatherData> {
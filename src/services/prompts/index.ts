@@ -0,0 +1,109 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { parsePromptTemplate, TemplatePromptBuilder } from '@/services/prompts/template';
+
+const TEMPLATE_NAME = /^[a-z][a-z0-9_-]*$/;
+const TEMPLATE_FILE = /^v(\d+)\.md$/;
+
+export interface PromptTemplateSummary {
+  name: string;
+  description?: string;
+  versions: number[];
+  latest: number;
+}
+
+/**
+ * Prompt templates loaded from disk, one directory per template and one file
+ * per version (`prompts/agent/v1.md`). Everything is parsed and validated at
+ * startup, so a broken template stops the server rather than a request.
+ * Templates are referenced as `name` (latest version) or `name@version`.
+ */
+export class PromptRegistry {
+  private templates = new Map<string, Map<number, TemplatePromptBuilder>>();
+  private dir: string;
+  private defaultRef: string;
+
+  constructor(dir: string, defaultRef: string) {
+    this.dir = dir;
+    this.defaultRef = defaultRef;
+  }
+
+  async initialize(): Promise<void> {
+    const entries = await fs.readdir(this.dir, { withFileTypes: true });
+
+    for (const entry of entries) {
+      if (!entry.isDirectory() || !TEMPLATE_NAME.test(entry.name)) continue;
+
+      const versions = new Map<number, TemplatePromptBuilder>();
+      for (const file of await fs.readdir(path.join(this.dir, entry.name))) {
+        const match = file.match(TEMPLATE_FILE);
+        if (!match) continue;
+
+        const filePath = path.join(this.dir, entry.name, file);
+        const version = Number(match[1]);
+        if (versions.has(version)) {
+          throw new Error(`Invalid prompt template ${filePath}: version ${version} is defined twice`);
+        }
+
+        try {
+          const raw = await fs.readFile(filePath, 'utf-8');
+          versions.set(version, new TemplatePromptBuilder(parsePromptTemplate(entry.name, version, raw)));
+        } catch (error) {
+          throw new Error(`Invalid prompt template ${filePath}: ${error instanceof Error ? error.message : error}`);
+        }
+      }
+
+      if (versions.size > 0) {
+        this.templates.set(entry.name, versions);
+      }
+    }
+
+    // The deployment default has to resolve, or every request would fail
+    const fallback = this.resolve(this.defaultRef);
+    if (!fallback) {
+      throw new Error(`Default prompt template ${this.defaultRef} not found in ${this.dir}`);
+    }
+
+    const loaded = [...this.templates.values()].flatMap(versions => [...versions.values()].map(builder => builder.ref));
+    console.log(`✅ Loaded ${loaded.length} prompt template(s): ${loaded.join(', ')} (default: ${fallback.ref})`);
+  }
+
+  // Undefined for unknown names or versions
+  resolve(ref: string): TemplatePromptBuilder | undefined {
+    const [name = '', version] = ref.split('@');
+    const versions = this.templates.get(name);
+    if (!versions) return undefined;
+
+    return version === undefined
+      ? versions.get(Math.max(...versions.keys()))
+      : versions.get(Number(version.replace(/^v/, '')));
+  }
+
+  get(ref: string = this.defaultRef): TemplatePromptBuilder {
+    const builder = this.resolve(ref);
+    if (!builder) {
+      throw new Error(`Prompt template not found: ${ref}`);
+    }
+    return builder;
+  }
+
+  has(ref: string): boolean {
+    return this.resolve(ref) !== undefined;
+  }
+
+  get defaultTemplate(): string {
+    return this.get().ref;
+  }
+
+  list(): PromptTemplateSummary[] {
+    return [...this.templates.entries()]
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([name, versions]) => {
+        const numbers = [...versions.keys()].sort((a, b) => a - b);
+        const latest = numbers[numbers.length - 1] as number;
+        const description = versions.get(latest)?.template.description;
+
+        return { name, ...(description && { description }), versions: numbers, latest };
+      });
+  }
+}
@@ -0,0 +1,170 @@
+import { config } from '@/config';
+import { IPromptBuilder, LLMMessage, LLMRequest, PromptContext, PromptTemplate } from '@/types/llm';
+
+// Every name a template may reference, as {{name}} or as a {{#name}}...{{/name}} section
+export const PROMPT_VARIABLES: ReadonlyArray<keyof PromptContext> = [
+  'memory',
+  'documents',
+  'plugins',
+  'message',
+  'strictGrounding',
+];
+
+const TAG_PATTERN = /\{\{([#^/]?)(\w+)\}\}/g;
+const SECTION_PATTERN = /\{\{([#^])(\w+)\}\}([\s\S]*?)\{\{\/\2\}\}/g;
+// A section tag on a line of its own takes its line break with it
+const STANDALONE_SECTION_TAG = /^(\{\{[#^/]\w+\}\})\n/gm;
+const SECTION_HEADER = /^=== (system|user) ===$/;
+
+/**
+ * Parse and validate a template file:
+ *
+ *   ---
+ *   description: optional one-liner
+ *   ---
+ *   === system ===
+ *   ...
+ *   === user ===
+ *   ...
+ *
+ * The system section is optional. Throws on unknown variables, unbalanced
+ * sections, malformed tags or a template that never uses {{message}}.
+ */
+export function parsePromptTemplate(name: string, version: number, raw: string): PromptTemplate {
+  let body = raw.replace(/\r\n/g, '\n');
+  let description: string | undefined;
+
+  const frontMatter = body.match(/^---\n([\s\S]*?)\n---\n/);
+  if (frontMatter) {
+    for (const line of (frontMatter[1] || '').split('\n').filter(line => line.trim())) {
+      const [, key, value] = line.match(/^(\w+):\s*(.*)$/) || [];
+      if (key !== 'description') {
+        throw new Error(`unsupported front matter line "${line}" (only "description" is allowed)`);
+      }
+      description = value?.trim();
+    }
+    body = body.slice(frontMatter[0].length);
+  }
+
+  const sections: Partial<Record<'system' | 'user', string[]>> = {};
+  let current: string[] | null = null;
+
+  for (const line of body.split('\n')) {
+    const header = line.match(SECTION_HEADER);
+    if (header) {
+      const section = header[1] as 'system' | 'user';
+      if (sections[section]) {
+        throw new Error(`duplicate "=== ${section} ===" section`);
+      }
+      current = sections[section] = [];
+    } else if (current) {
+      current.push(line);
+    } else if (line.trim()) {
+      throw new Error('text before the first "=== system ===" or "=== user ===" header');
+    }
+  }
+
+  if (!sections.user) {
+    throw new Error('missing "=== user ===" section');
+  }
+
+  const system = (sections.system || []).join('\n').trim();
+  const user = sections.user.join('\n').trim();
+  const variables = validateTags(`${system}\n${user}`);
+
+  if (!variables.includes('message')) {
+    throw new Error('template never uses {{message}}');
+  }
+
+  return { name, version, ...(description && { description }), system, user, variables };
+}
+
+// Returns the variables used, in order of first use
+function validateTags(text: string): string[] {
+  const variables = new Set<string>();
+  const open: string[] = [];
+
+  for (const [, kind, variable] of text.matchAll(TAG_PATTERN)) {
+    if (!PROMPT_VARIABLES.includes(variable as keyof PromptContext)) {
+      throw new Error(`unknown variable "${variable}" (available: ${PROMPT_VARIABLES.join(', ')})`);
+    }
+    variables.add(variable as string);
+
+    if (kind === '#' || kind === '^') {
+      if (open.includes(variable as string)) {
+        throw new Error(`section "${variable}" is nested inside itself`);
+      }
+      open.push(variable as string);
+    } else if (kind === '/') {
+      if (open.pop() !== variable) {
+        throw new Error(`unexpected {{/${variable}}}`);
+      }
+    }
+  }
+
+  if (open.length > 0) {
+    throw new Error(`unclosed section "${open[open.length - 1]}"`);
+  }
+
+  // Anything left that looks like a tag is a typo, e.g. {{ memory }}
+  const stray = text.replace(TAG_PATTERN, '').match(/\{\{[^}]*\}\}/);
+  if (stray) {
+    throw new Error(`malformed tag ${stray[0]}`);
+  }
+
+  return [...variables];
+}
+
+// {{#name}} keeps its content when the variable is truthy, {{^name}} when it is falsy (false or empty)
+export function renderTemplate(text: string, context: PromptContext): string {
+  let rendered = text.replace(STANDALONE_SECTION_TAG, '$1');
+  let previous: string;
+
+  // Repeat so sections nested in other sections resolve too
+  do {
+    previous = rendered;
+    rendered = rendered.replace(SECTION_PATTERN, (_, kind: string, variable: string, content: string) => {
+      const truthy = Boolean(context[variable as keyof PromptContext]);
+      return (kind === '#') === truthy ? content : '';
+    });
+  } while (rendered !== previous);
+
+  return rendered.replace(TAG_PATTERN, (_, _kind: string, variable: string) =>
+    String(context[variable as keyof PromptContext])
+  );
+}
+
+export class TemplatePromptBuilder implements IPromptBuilder {
+  public readonly template: PromptTemplate;
+
+  constructor(template: PromptTemplate) {
+    this.template = template;
+  }
+
+  // "name@version", as reported in agent responses
+  get ref(): string {
+    return `${this.template.name}@${this.template.version}`;
+  }
+
+  buildSystemPrompt(context: PromptContext): string {
+    return renderTemplate(this.template.system, context).trim();
+  }
+
+  buildUserPrompt(context: PromptContext): string {
+    return renderTemplate(this.template.user, context).trim();
+  }
+
+  buildFullPrompt(context: PromptContext): LLMRequest {
+    const system = this.buildSystemPrompt(context);
+    const messages: LLMMessage[] = [
+      ...(system ? [{ role: 'system' as const, content: system }] : []),
+      { role: 'user', content: this.buildUserPrompt(context) },
+    ];
+
+    return {
+      messages,
+      temperature: config.llm.temperature,
+      maxTokens: config.llm.maxTokens,
+    };
+  }
+}
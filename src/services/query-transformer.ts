@@ -0,0 +1,128 @@
+import { config } from '@/config';
+import { ILLMService } from '@/types/llm';
+import { QueryExpansion } from '@/types/agent';
+
+const REWRITE_MAX_TOKENS = 100;
+const HYPOTHETICAL_ANSWER_MAX_TOKENS = 250;
+
+export interface TransformedQuery {
+  // The message rewritten to stand on its own (the message itself without history or on failure)
+  standalone: string;
+  expansion: QueryExpansion;
+  // Paraphrases (multi-query) or a hypothetical answer (HyDE), searched alongside `standalone`
+  variants: string[];
+}
+
+// Models like to number, bullet or quote list items even when told not to
+function cleanLine(line: string): string {
+  return line
+    .replace(/^\s*(?:[-*+]|\d+[.)])\s+/, '')
+    .replace(/^["'`]+|["'`]+$/g, '')
+    .trim();
+}
+
+/**
+ * Turns a chat message into retrieval queries: a standalone rewrite that
+ * resolves references to earlier turns ("and how does it compare?"), optionally
+ * fanned out into paraphrases or a hypothetical answer passage (HyDE).
+ * Every LLM step falls back to what it was given, so retrieval never fails here.
+ */
+export class QueryTransformer {
+  private llmService: ILLMService;
+
+  constructor(llmService: ILLMService) {
+    this.llmService = llmService;
+  }
+
+  // `history` is the formatted session memory, or null for the first message of a session
+  async transform(message: string, history: string | null, expansion: QueryExpansion): Promise<TransformedQuery> {
+    const standalone = history && config.agent.queryRewrite
+      ? await this.rewrite(message, history)
+      : message;
+
+    let variants: string[] = [];
+    if (expansion === 'multi-query') {
+      variants = await this.paraphrase(standalone, config.agent.queryExpansionCount);
+    } else if (expansion === 'hyde') {
+      variants = await this.hypotheticalAnswer(standalone);
+    }
+
+    return { standalone, expansion, variants };
+  }
+
+  private async rewrite(message: string, history: string): Promise<string> {
+    try {
+      const response = await this.llmService.generateCompletion({
+        messages: [
+          {
+            role: 'system',
+            content: 'Rewrite the latest user message as a standalone search query for a document index. '
+              + 'Resolve pronouns and references using the conversation, keep names and technical terms verbatim, '
+              + 'and do not answer it. Reply with the query only, on one line.',
+          },
+          {
+            role: 'user',
+            content: `## CONVERSATION\n${history}\n\n## LATEST MESSAGE\n${message}\n\n## STANDALONE QUERY\n`,
+          },
+        ],
+        temperature: 0,
+        maxTokens: REWRITE_MAX_TOKENS,
+      });
+
+      const query = cleanLine(response.content.split('\n').find(line => line.trim()) || '');
+      if (query) {
+        return query;
+      }
+    } catch (error) {
+      console.warn('⚠️ Query rewriting failed, searching with the raw message:', error instanceof Error ? error.message : error);
+    }
+
+    return message;
+  }
+
+  private async paraphrase(query: string, count: number): Promise<string[]> {
+    try {
+      const response = await this.llmService.generateCompletion({
+        messages: [
+          {
+            role: 'system',
+            content: `Write ${count} alternative search queries for the same information need, `
+              + 'each using different wording or naming a different aspect. One query per line, nothing else.',
+          },
+          { role: 'user', content: query },
+        ],
+        temperature: 0.7,
+        maxTokens: REWRITE_MAX_TOKENS * count,
+      });
+
+      const variants = response.content.split('\n').map(cleanLine).filter(line => line && line !== query);
+      return [...new Set(variants)].slice(0, count);
+    } catch (error) {
+      console.warn('⚠️ Multi-query expansion failed, searching with one query:', error instanceof Error ? error.message : error);
+      return [];
+    }
+  }
+
+  private async hypotheticalAnswer(query: string): Promise<string[]> {
+    try {
+      const response = await this.llmService.generateCompletion({
+        messages: [
+          {
+            role: 'system',
+            content: 'Write a short passage, at most 120 words, that answers the question the way a reference document would. '
+              + 'Plausible specifics are fine: the passage is only used to find similar documents.',
+          },
+          { role: 'user', content: query },
+        ],
+        temperature: 0.3,
+        maxTokens: HYPOTHETICAL_ANSWER_MAX_TOKENS,
+      });
+
+      const passage = response.content.trim();
+      return passage ? [passage] : [];
+    } catch (error) {
+      console.warn('⚠️ HyDE expansion failed, searching with the query only:', error instanceof Error ? error.message : error);
+      return [];
+    }
+  }
+}
@@ -1,13 +1,33 @@
 import { config } from '@/config';
-import { WeaviateService, SearchResult } from '@/services/weaviate';
+import {
+  ChunkMetadata,
+  ChunkMetadataSchema,
+  Collection,
+  CollectionSummary,
+  EmbeddingCacheStats,
+  IEmbeddingService,
+  IngestReport,
+  LoadedDocument,
+  RAGOptions,
+  Reranker,
+  RerankerName,
+  VectorStore,
+  VectorSearchOptions,
+  VectorSearchResult,
+  VectorSourceSummary,
+  VectorStoreStats
+} from '@/types/rag';
+import { ILLMService } from '@/types/llm';
+import { IngestManifest } from '@/services/ingest-manifest';
+import { CollectionRegistry, collectionFilePath, DEFAULT_COLLECTION } from '@/services/collections';
+import { createReranker } from '@/services/rerankers';
+import { chunkMarkdown, MarkdownChunk } from '@/services/chunking/markdown';
+import { isSupportedDocument, loadDocument } from '@/services/loaders';
+import { countTokens } from '@/services/tokenizers';
+import { createHash } from 'crypto';
 import fs from 'fs/promises';
 import path from 'path';
-import { v4 as uuidv4 } from 'uuid';
-
-export interface RAGOptions {
-  maxSearchResults?: number;
-  similarityThreshold?: number;
-}
+import { v5 as uuidv5 } from 'uuid';
 
 interface DocumentChunk {
   id: string;
@@ -17,80 +37,109 @@ interface DocumentChunk {
     fileName: string;
     chunkIndex: number;
     processedAt: string;
+    tokenCount: number;
+    title?: string;
+    section?: string;
+    page?: number;
+    row?: number;
+    [key: string]: unknown;
   };
 }
 
-/**
- * Generator function that reads a file and yields chunks in small batches
- * This prevents loading the entire file's chunks into memory at once
- */
-async function* streamChunksFromFile(
-  filePath: string,
-  fileName: string,
-  options: { chunkSize: number; batchSize: number }
-): AsyncGenerator<DocumentChunk[]> {
-  console.log(`   -> Streaming chunks from: ${fileName}`);
-
-  const { chunkSize, batchSize } = options;
+// Fixed namespace so the same source/position/content always maps to the same chunk ID
+const CHUNK_ID_NAMESPACE = '6f1c3a52-9d4e-4b8a-a7f0-2e5d8c9b1a34';
 
-  try {
-    // Read file content (for files up to ~100MB this is fine)
-    const content = await fs.readFile(filePath, 'utf-8');
-    const words = content.split(/\s+/); // Split by any whitespace
-
-    let startIndex = 0;
-    let batch: DocumentChunk[] = [];
-    let chunkIndex = 0;
-
-    while (startIndex < words.length) {
-      const endIndex = Math.min(startIndex + chunkSize, words.length);
-      const chunkContent = words.slice(startIndex, endIndex).join(' ').trim();
-
-      if (chunkContent) {
-        batch.push({
-          id: uuidv4(),
-          content: chunkContent,
-          source: fileName,
-          metadata: {
-            fileName: fileName,
-            chunkIndex: chunkIndex++,
-            processedAt: new Date().toISOString(),
-          },
-        });
-      }
+// Part of every manifest hash, so changing the chunker or its settings re-indexes all documents
+const CHUNKING_SIGNATURE = `markdown-v1:${config.rag.maxChunkTokens}:${config.rag.chunkOverlap}`;
 
-      // When batch is full, yield it and clear it
-      if (batch.length === batchSize) {
-        yield batch;
-        batch = []; // CRITICAL: Reset batch to free memory
-      }
+function hashContent(...parts: Array<string | Buffer>): string {
+  const hash = createHash('sha256');
+  parts.forEach(part => hash.update(part));
+  return hash.digest('hex');
+}
 
-      startIndex += chunkSize;
-    }
+// Deterministic chunk ID: re-indexing unchanged content overwrites instead of duplicating
+function chunkId(source: string, chunkIndex: number, content: string): string {
+  return uuidv5(`${source}#${chunkIndex}#${hashContent(content)}`, CHUNK_ID_NAMESPACE);
+}
 
-    // Yield any remaining chunks in the last batch
-    if (batch.length > 0) {
-      yield batch;
-    }
+/**
+ * Chunk a loaded document section by section, yielded in small batches.
+ * Document metadata (tags, product, ...) and section metadata (page, row, ...)
+ * are copied onto every chunk; the pipeline's own fields take precedence.
+ */
+function* streamChunksFromDocument(
+  document: LoadedDocument,
+  fileName: string,
+  metadata: ChunkMetadata,
+  options: { maxTokens: number; overlap: number; batchSize: number }
+): Generator<DocumentChunk[]> {
+  const { batchSize } = options;
+  const fallbackTitle = document.title || path.parse(fileName).name;
+
+  const chunks = document.sections.flatMap(section => {
+    const sectionChunks: MarkdownChunk[] = document.records
+      ? [{ content: section.text, tokenCount: countTokens(section.text), title: fallbackTitle }]
+      : chunkMarkdown(section.text, { maxTokens: options.maxTokens, overlap: options.overlap, fallbackTitle });
+
+    return sectionChunks.map(chunk => ({ ...chunk, sectionMetadata: section.metadata || {} }));
+  });
+
+  for (let start = 0; start < chunks.length; start += batchSize) {
+    const processedAt = new Date().toISOString();
+
+    yield chunks.slice(start, start + batchSize).map((chunk, offset) => ({
+      id: chunkId(fileName, start + offset, chunk.content),
+      content: chunk.content,
+      source: fileName,
+      metadata: {
+        ...metadata,
+        ...chunk.sectionMetadata,
+        fileName,
+        chunkIndex: start + offset,
+        processedAt,
+        tokenCount: chunk.tokenCount,
+        ...(chunk.title && { title: chunk.title }),
+        ...(chunk.section && { section: chunk.section }),
+      },
+    }));
+  }
+}
 
-    console.log(`   -> Finished streaming from: ${fileName}`);
+/**
+ * Optional `<file>.meta.json` next to a document supplies its metadata
+ * (tags, product, version, language, ACL group, ...)
+ */
+async function readSidecarMetadata(filePath: string): Promise<ChunkMetadata> {
+  try {
+    const raw = await fs.readFile(`${filePath}.meta.json`, 'utf-8');
+    return ChunkMetadataSchema.parse(JSON.parse(raw));
   } catch (error) {
-    console.error(`   ❌ Error streaming from ${fileName}:`, error);
-    throw error;
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return {};
+    }
+    throw new Error(`Invalid metadata sidecar for ${path.basename(filePath)}: ${error instanceof Error ? error.message : error}`);
   }
 }
 
 export class StreamingRAGService {
-  private weaviateService: WeaviateService;
-
-  constructor() {
-    this.weaviateService = new WeaviateService();
+  private collections: CollectionRegistry;
+  private llmService: ILLMService;
+  private embeddingService: IEmbeddingService;
+  // One ingest manifest per collection, created on first use
+  private manifests = new Map<string, IngestManifest>();
+  private rerankers = new Map<RerankerName, Reranker>();
+
+  constructor(collections: CollectionRegistry, llmService: ILLMService, embeddingService: IEmbeddingService) {
+    this.collections = collections;
+    this.llmService = llmService;
+    this.embeddingService = embeddingService;
   }
 
   async initialize(): Promise<void> {
     try {
       console.log('🚀 Initializing Streaming RAG system...');
-      await this.weaviateService.initialize();
+      await this.collections.initialize();
       console.log('✅ Streaming RAG system initialized successfully');
     } catch (error) {
       console.error('❌ Failed to initialize Streaming RAG system:', error);
@@ -98,117 +147,364 @@ export class StreamingRAGService {
     }
   }
 
-  async processAndIndexDocuments(): Promise<void> {
+  /**
+   * Incrementally sync data/documents (any format with a registered loader) into the vector store. Files whose content
+   * hash matches the manifest (and whose chunks are still in the store) are skipped;
+   * changed files are re-chunked, and files no longer on disk have their chunks removed.
+   * Collections other than the default one sync from data/documents/<collection>.
+   */
+  async processAndIndexDocuments(collection: string = DEFAULT_COLLECTION): Promise<IngestReport> {
+    const startedAt = Date.now();
+    const report: IngestReport = {
+      added: [],
+      updated: [],
+      unchanged: [],
+      deleted: [],
+      failed: [],
+      chunksAdded: 0,
+      chunksDeleted: 0,
+      durationMs: 0,
+    };
+
     try {
-      console.log('📚 Processing documents with TRUE memory-safe streaming...');
+      console.log(`📚 Processing documents for collection ${collection} with incremental streaming...`);
 
-      const documentsPath = path.join(process.cwd(), 'data', 'documents');
+      const store = this.collections.store(collection);
+      const manifest = this.manifestFor(collection);
+      const documentsPath = collection === DEFAULT_COLLECTION
+        ? path.join(process.cwd(), 'data', 'documents')
+        : path.join(process.cwd(), 'data', 'documents', collection);
       const files = await fs.readdir(documentsPath);
-      const markdownFiles = files.filter(file => file.endsWith('.md') && file !== 'README.md');
+      const documentFiles = files.filter(file => isSupportedDocument(file) && file !== 'README.md');
 
-      if (markdownFiles.length === 0) {
-        console.log('⚠️ No markdown files found');
-        return;
-      }
+      await manifest.load();
+      const storedCounts = await this.getStoredChunkCounts(store);
 
-      console.log(`📚 Processing ${markdownFiles.length} files with generator streaming...`);
-      let totalChunks = 0;
-
-      for (const fileName of markdownFiles) {
+      for (const fileName of documentFiles) {
         try {
-          console.log(`📄 Processing: ${fileName}`);
+          // Read file content (for files up to ~100MB this is fine)
+          const data = await fs.readFile(path.join(documentsPath, fileName));
+          const metadata = await readSidecarMetadata(path.join(documentsPath, fileName));
+          const hash = hashContent(`${CHUNKING_SIGNATURE}\n`, JSON.stringify(metadata), data);
+          const previous = manifest.get(fileName);
+
+          // A matching hash only counts if the store still holds the chunks (it may have been wiped)
+          if (previous?.hash === hash && storedCounts?.get(fileName) === previous.chunks) {
+            report.unchanged.push(fileName);
+            continue;
+          }
+
+          console.log(`📄 ${previous ? 'Updating' : 'Adding'}: ${fileName}`);
+          manifest.delete(fileName);
+          report.chunksDeleted += await store.deleteBySource(fileName);
 
-          const filePath = path.join(documentsPath, fileName);
+          const chunks = await this.indexChunks(store, fileName, await loadDocument(data, fileName), metadata);
+          report.chunksAdded += chunks;
 
-          // Use generator to stream chunks in tiny batches
-          const chunkStream = streamChunksFromFile(filePath, fileName, {
-            chunkSize: config.rag.maxChunkTokens, // 30 words per chunk
-            batchSize: 3, // Only 3 chunks at a time to minimize memory
+          manifest.set(fileName, { hash, chunks, indexedAt: new Date().toISOString() });
+          (previous ? report.updated : report.added).push(fileName);
+        } catch (error) {
+          console.error(`❌ Failed to process ${fileName}:`, error);
+          report.failed.push({
+            source: fileName,
+            error: error instanceof Error ? error.message : 'Unknown error',
           });
+        }
+      }
 
-          let batchNumber = 0;
-          let fileChunks = 0;
+      // Drop chunks for files that were removed from disk since the last run
+      for (const source of manifest.sources()) {
+        if (documentFiles.includes(source)) continue;
 
-          // Process one tiny batch at a time - memory usage is minimal
-          for await (const chunkBatch of chunkStream) {
-            batchNumber++;
-            try {
-              // Send the small batch immediately to Weaviate
-              await this.weaviateService.addChunks(chunkBatch);
-              fileChunks += chunkBatch.length;
-              totalChunks += chunkBatch.length;
+        try {
+          report.chunksDeleted += await store.deleteBySource(source);
+          manifest.delete(source);
+          report.deleted.push(source);
+        } catch (error) {
+          console.error(`❌ Failed to remove ${source}:`, error);
+          report.failed.push({
+            source,
+            error: error instanceof Error ? error.message : 'Unknown error',
+          });
+        }
+      }
 
-              console.log(`   📦 Sent batch ${batchNumber} (${chunkBatch.length} chunks) to Weaviate`);
+      await manifest.save();
 
-              // Clear memory after each batch
-              if (global.gc) global.gc();
-              await new Promise(resolve => setTimeout(resolve, 25)); // Small delay
+      report.durationMs = Date.now() - startedAt;
+      console.log(
+        `✅ Ingest complete: ${report.added.length} added, ${report.updated.length} updated, ` +
+        `${report.unchanged.length} unchanged, ${report.deleted.length} deleted, ${report.failed.length} failed`
+      );
+      return report;
+    } catch (error) {
+      console.error('❌ Failed to process documents:', error);
+      throw error;
+    }
+  }
 
-            } catch (error) {
-              console.error(`   ❌ Failed to send batch ${batchNumber}:`, error);
-            }
-          }
+  // Index a single uploaded document, replacing any chunks already stored under the same source
+  async indexDocument(
+    fileName: string,
+    data: Buffer,
+    mimeType?: string,
+    metadata: ChunkMetadata = {},
+    collection: string = DEFAULT_COLLECTION
+  ): Promise<{ source: string; collection: string; chunks: number; replaced: number }> {
+    try {
+      console.log(`📄 Indexing uploaded document: ${fileName} (collection: ${collection})`);
+      const store = this.collections.store(collection);
 
-          console.log(`✅ Processed ${fileName} (${fileChunks} chunks in ${batchNumber} batches)`);
+      // Extract before deleting so an unreadable upload leaves the old version in place
+      const document = await loadDocument(data, fileName, mimeType);
+      const replaced = await store.deleteBySource(fileName);
+      const chunks = await this.indexChunks(store, fileName, document, metadata);
 
-        } catch (error) {
-          console.error(`❌ Failed to process ${fileName}:`, error);
-        }
-      }
+      console.log(`✅ Indexed ${fileName} (${chunks} chunks, replaced ${replaced})`);
+      return { source: fileName, collection, chunks, replaced };
+    } catch (error) {
+      console.error(`❌ Failed to index ${fileName}:`, error);
+      throw error;
+    }
+  }
 
-      console.log(`✅ Successfully indexed ${totalChunks} total chunks`);
+  async listDocuments(collection: string = DEFAULT_COLLECTION): Promise<VectorSourceSummary[]> {
+    try {
+      return await this.collections.store(collection).listSources();
     } catch (error) {
-      console.error('❌ Failed to process documents:', error);
+      console.error('❌ Failed to list documents:', error);
       throw error;
     }
   }
 
-    async search(query: string, options: RAGOptions = {}): Promise<SearchResult[]> {
+  async deleteDocument(source: string, collection: string = DEFAULT_COLLECTION): Promise<number> {
+    try {
+      const deleted = await this.collections.store(collection).deleteBySource(source);
+      console.log(`✅ Removed ${deleted} chunks for document: ${source}`);
+      return deleted;
+    } catch (error) {
+      console.error(`❌ Failed to delete document ${source}:`, error);
+      throw error;
+    }
+  }
+
+  async search(query: string, options: RAGOptions = {}): Promise<VectorSearchResult[]> {
     const {
       maxSearchResults = config.rag.maxSearchResults,
       similarityThreshold = 0.7,
+      alpha = config.rag.hybridAlpha,
+      minFusedScore = config.rag.hybridMinScore,
+      filters,
+      collections = [DEFAULT_COLLECTION],
+      rerank = config.rag.reranker,
+      rerankCandidates = config.rag.rerankCandidates,
     } = options;
 
     try {
-      // Use nearText search since Weaviate has text2vec-transformers configured
-      const results = await this.weaviateService.search(query, [], maxSearchResults);
-      const filteredResults = results.filter((result: SearchResult) => result.score >= similarityThreshold);
+      // With a reranker, over-fetch so it has more than the final top-k to choose from, up to the
+      // configured cap: every candidate is scored, by an LLM call for 'llm'
+      const fetchLimit = rerank === 'none'
+        ? maxSearchResults
+        : Math.min(Math.max(rerankCandidates, maxSearchResults), config.rag.maxRerankCandidates);
+      const results = await this.searchCollections(collections, query, fetchLimit, { alpha, ...(filters && { filters }) });
+      // Hybrid scores are normalized RRF ranks, not similarities: a BM25-only #1 hit scores 0.5 at alpha 0.5,
+      // so the similarity threshold would drop exactly the keyword matches hybrid mode is for
+      const cutoff = alpha < 1 ? minFusedScore : similarityThreshold;
+      const filteredResults = results.filter((result: VectorSearchResult) => result.score >= cutoff);
+
+      const rankedResults = rerank === 'none'
+        ? filteredResults
+        : await this.rerank(rerank, query, filteredResults);
 
       console.log(`🔍 Found ${filteredResults.length} relevant results for query: "${query}"`);
-      return filteredResults;
+      return rankedResults.slice(0, maxSearchResults);
     } catch (error) {
       console.error('❌ Failed to search documents:', error);
       return [];
     }
   }
 
-  async getStats(): Promise<{ weaviate: any }> {
+  async getStats(): Promise<{
+    store: string;
+    vectorStore: VectorStoreStats;
+    collections: Record<string, VectorStoreStats>;
+    embeddings: { model: string; cache?: EmbeddingCacheStats };
+  }> {
+    const store = this.collections.store(DEFAULT_COLLECTION).name;
+    const cache = this.embeddingService.getCacheStats?.();
+    const embeddings = { model: this.embeddingService.model, ...(cache && { cache }) };
+
     try {
-      const weaviateStats = await this.weaviateService.getStats();
-      return { weaviate: weaviateStats };
+      const collections: Record<string, VectorStoreStats> = {};
+      for (const name of this.collections.names()) {
+        collections[name] = await this.collections.store(name).getStats();
+      }
+
+      const totalChunks = Object.values(collections).reduce((sum, stats) => sum + stats.totalChunks, 0);
+      return { store, vectorStore: { totalChunks }, collections, embeddings };
     } catch (error) {
       console.error('❌ Failed to get stats:', error);
-      return { weaviate: { totalChunks: 0 } };
+      return { store, vectorStore: { totalChunks: 0 }, collections: {}, embeddings };
     }
   }
 
-  async healthCheck(): Promise<{ weaviate: boolean }> {
+  async healthCheck(): Promise<{ vectorStore: boolean }> {
     try {
-      const weaviateHealth = await this.weaviateService.healthCheck();
-      return { weaviate: weaviateHealth };
+      // Every collection lives in the same backend, so the default store speaks for all of them
+      const vectorStoreHealth = await this.collections.store(DEFAULT_COLLECTION).healthCheck();
+      return { vectorStore: vectorStoreHealth };
     } catch (error) {
       console.error('❌ Health check failed:', error);
-      return { weaviate: false };
+      return { vectorStore: false };
     }
   }
 
-  async clearIndex(): Promise<void> {
+  async clearIndex(collection: string = DEFAULT_COLLECTION): Promise<void> {
     try {
-      await this.weaviateService.deleteAllChunks();
-      console.log('✅ Cleared all indexed documents');
+      await this.collections.store(collection).deleteAll();
+
+      // Forget indexed hashes so the next ingest run re-adds everything
+      const manifest = this.manifestFor(collection);
+      manifest.clear();
+      await manifest.save();
+      console.log(`✅ Cleared all indexed documents in collection: ${collection}`);
     } catch (error) {
       console.error('❌ Failed to clear index:', error);
       throw error;
     }
   }
-}
\ No newline at end of file
+
+  hasCollection(name: string): boolean {
+    return this.collections.has(name);
+  }
+
+  async listCollections(): Promise<CollectionSummary[]> {
+    try {
+      return await Promise.all(this.collections.list().map(collection => this.summarize(collection)));
+    } catch (error) {
+      console.error('❌ Failed to list collections:', error);
+      throw error;
+    }
+  }
+
+  async getCollection(name: string): Promise<CollectionSummary | undefined> {
+    const collection = this.collections.get(name);
+    return collection && this.summarize(collection);
+  }
+
+  async createCollection(name: string, description?: string): Promise<Collection> {
+    return this.collections.create(name, description);
+  }
+
+  async updateCollection(name: string, description: string): Promise<Collection> {
+    return this.collections.update(name, description);
+  }
+
+  // Drop a collection's index along with its ingest manifest
+  async deleteCollection(name: string): Promise<void> {
+    try {
+      await this.collections.delete(name);
+      await this.manifestFor(name).remove();
+      this.manifests.delete(name);
+    } catch (error) {
+      console.error(`❌ Failed to delete collection ${name}:`, error);
+      throw error;
+    }
+  }
+
+  private async summarize(collection: Collection): Promise<CollectionSummary> {
+    const sources = await this.collections.store(collection.name).listSources();
+    return {
+      ...collection,
+      documents: sources.length,
+      chunks: sources.reduce((sum, source) => sum + source.chunkCount, 0),
+    };
+  }
+
+  private manifestFor(collection: string): IngestManifest {
+    let manifest = this.manifests.get(collection);
+    if (!manifest) {
+      manifest = new IngestManifest(collectionFilePath(path.resolve(config.rag.manifestPath), collection));
+      this.manifests.set(collection, manifest);
+    }
+    return manifest;
+  }
+
+  // Query each collection's index and merge by score. Every collection uses the same
+  // embeddings and retrieval mode, so scores are comparable across them.
+  private async searchCollections(
+    collections: string[],
+    query: string,
+    limit: number,
+    options: VectorSearchOptions
+  ): Promise<VectorSearchResult[]> {
+    const perCollection = await Promise.all(collections.map(async collection => {
+      const results = await this.collections.store(collection).search(query, limit, options);
+      return results.map(result => ({ ...result, collection }));
+    }));
+
+    return perCollection.flat().sort((a, b) => b.score - a.score).slice(0, limit);
+  }
+
+  // Re-score candidates and order by the reranker; on failure keep retrieval order
+  private async rerank(
+    name: Exclude<RerankerName, 'none'>,
+    query: string,
+    candidates: VectorSearchResult[]
+  ): Promise<VectorSearchResult[]> {
+    if (candidates.length === 0) {
+      return candidates;
+    }
+
+    try {
+      let reranker = this.rerankers.get(name);
+      if (!reranker) {
+        reranker = createReranker(name, this.llmService);
+        this.rerankers.set(name, reranker);
+      }
+
+      const scores = await reranker.score(query, candidates);
+
+      return candidates
+        .map((candidate, index) => ({ ...candidate, rerankScore: scores[index] ?? 0 }))
+        .sort((a, b) => b.rerankScore - a.rerankScore);
+    } catch (error) {
+      console.warn(`⚠️ ${name} reranker failed, keeping retrieval order:`, error instanceof Error ? error.message : error);
+      return candidates;
+    }
+  }
+
+  // Stream a document's chunks into the vector store in small batches, persisting once at the end
+  private async indexChunks(
+    store: VectorStore,
+    fileName: string,
+    document: LoadedDocument,
+    metadata: ChunkMetadata
+  ): Promise<number> {
+    const chunkStream = streamChunksFromDocument(document, fileName, metadata, {
+      maxTokens: config.rag.maxChunkTokens,
+      overlap: config.rag.chunkOverlap,
+      batchSize: 3, // Only 3 chunks at a time to minimize memory
+    });
+
+    let chunks = 0;
+    for (const chunkBatch of chunkStream) {
+      await store.addChunks(chunkBatch);
+      chunks += chunkBatch.length;
+    }
+
+    await store.flush();
+    return chunks;
+  }
+
+  // Chunk counts per source as the store sees them; null if the store can't tell us
+  private async getStoredChunkCounts(store: VectorStore): Promise<Map<string, number> | null> {
+    try {
+      const sources = await store.listSources();
+      return new Map(sources.map(({ source, chunkCount }) => [source, chunkCount]));
+    } catch (error) {
+      console.warn('⚠️ Could not read indexed sources, re-indexing all documents:', error);
+      return null;
+    }
+  }
+}
@@ -1,7 +1,7 @@
 import { config } from '@/config';
-import { WeaviateService, SearchResult } from '@/services/weaviate';
+import { VectorStore, VectorSearchResult, VectorStoreStats } from '@/types/rag';
 import { SimpleDocumentProcessor } from '@/services/simple-document-processor';
-import { GeminiService } from '@/services/gemini';
+import { ILLMService } from '@/types/llm';
 
 export interface RAGOptions {
   maxSearchResults?: number;
@@ -9,25 +9,22 @@ export interface RAGOptions {
 }
 
 export class RAGService {
-  private weaviateService: WeaviateService;
+  private vectorStore: VectorStore;
   private documentProcessor: SimpleDocumentProcessor;
-  private geminiService: GeminiService;
+  private llmService: ILLMService;
 
-  constructor() {
-    this.weaviateService = new WeaviateService();
+  constructor(llmService: ILLMService, vectorStore: VectorStore) {
+    this.vectorStore = vectorStore;
     this.documentProcessor = new SimpleDocumentProcessor();
-    this.geminiService = new GeminiService();
+    this.llmService = llmService;
   }
 
   async initialize(): Promise<void> {
     try {
-      console.log('🚀 Initializing RAG system with Weaviate...');
+      console.log(`🚀 Initializing RAG system with ${this.vectorStore.name} vector store...`);
 
-      // Initialize Weaviate
-      await this.weaviateService.initialize();
-
-      // Initialize Gemini service
-      await this.geminiService.initialize();
+      // Initialize vector store
+      await this.vectorStore.initialize();
 
       console.log('✅ RAG system initialized successfully');
     } catch (error) {
@@ -41,7 +38,7 @@ export class RAGService {
       console.log('📚 Processing and indexing documents...');
 
       // Process documents one by one to avoid memory accumulation
-      const files = await this.documentProcessor.getMarkdownFiles();
+      const files = await this.documentProcessor.getDocumentFiles();
 
       if (files.length === 0) {
         console.log('⚠️  No documents to process');
@@ -62,8 +59,8 @@ export class RAGService {
          });
 
         if (chunks.length > 0) {
-          // Store chunks directly in Weaviate (no embeddings needed)
-          await this.weaviateService.addChunks(chunks);
+          // Store chunks in the vector store
+          await this.vectorStore.addChunks(chunks);
           totalChunks += chunks.length;
 
           console.log(`✅ Processed ${chunks.length} chunks from ${file}`);
@@ -78,6 +75,7 @@ export class RAGService {
         }
       }
 
+      await this.vectorStore.flush();
       console.log(`✅ Successfully indexed ${totalChunks} total chunks`);
     } catch (error) {
       console.error('❌ Failed to process and index documents:', error);
@@ -85,18 +83,18 @@ export class RAGService {
     }
   }
 
-  async search(query: string, options: RAGOptions = {}): Promise<SearchResult[]> {
+  async search(query: string, options: RAGOptions = {}): Promise<VectorSearchResult[]> {
     const {
       maxSearchResults = config.rag.maxSearchResults,
       similarityThreshold = 0.7,
     } = options;
 
     try {
-      // Search in Weaviate (no embedding needed - Weaviate handles it)
-      const results = await this.weaviateService.search(query, [], maxSearchResults);
+      // Search the vector store (it embeds the query itself)
+      const results = await this.vectorStore.search(query, maxSearchResults);
 
       // Filter by similarity threshold
-      const filteredResults = results.filter((result: SearchResult) => result.score >= similarityThreshold);
+      const filteredResults = results.filter((result: VectorSearchResult) => result.score >= similarityThreshold);
 
       console.log(`🔍 Found ${filteredResults.length} relevant chunks for query: "${query}"`);
 
@@ -113,42 +111,42 @@ export class RAGService {
 
   async getStats(): Promise<{
     documents: any;
-    weaviate: any;
+    vectorStore: VectorStoreStats;
   }> {
     try {
-      const [documentStats, weaviateStats] = await Promise.all([
+      const [documentStats, vectorStoreStats] = await Promise.all([
         this.documentProcessor.getDocumentStats(),
-        this.weaviateService.getStats(),
+        this.vectorStore.getStats(),
       ]);
 
       return {
         documents: documentStats,
-        weaviate: weaviateStats,
+        vectorStore: vectorStoreStats,
       };
     } catch (error) {
       console.error('❌ Failed to get RAG stats:', error);
       return {
         documents: { totalFiles: 0, totalChunks: 0, files: [] },
-        weaviate: { totalChunks: 0 },
+        vectorStore: { totalChunks: 0 },
       };
     }
   }
 
   async healthCheck(): Promise<{
-    weaviate: boolean;
-    gemini: boolean;
+    vectorStore: boolean;
+    llm: boolean;
     documents: boolean;
   }> {
     try {
-      // Check Weaviate health
-      const weaviateHealth = await this.weaviateService.healthCheck();
+      // Check vector store health
+      const vectorStoreHealth = await this.vectorStore.healthCheck();
 
-      // Check Gemini health (don't fail if it's not available)
-      let geminiHealth = false;
+      // Check LLM provider health (don't fail if it's not available)
+      let llmHealth = false;
       try {
-        geminiHealth = await this.geminiService.healthCheck();
+        llmHealth = await this.llmService.healthCheck();
       } catch (error) {
-        console.warn('⚠️ Gemini health check failed (API key may be missing):', error instanceof Error ? error.message : 'Unknown error');
+        console.warn('⚠️ LLM health check failed (provider may be unavailable):', error instanceof Error ? error.message : 'Unknown error');
       }
 
       // Check if documents directory exists and has files
@@ -156,15 +154,15 @@ export class RAGService {
       const documentsHealth = documentStats.totalFiles > 0;
 
       return {
-        weaviate: weaviateHealth,
-        gemini: geminiHealth,
+        vectorStore: vectorStoreHealth,
+        llm: llmHealth,
         documents: documentsHealth,
       };
     } catch (error) {
       console.error('❌ RAG health check failed:', error);
       return {
-        weaviate: false,
-        gemini: false,
+        vectorStore: false,
+        llm: false,
         documents: false,
       };
     }
@@ -172,11 +170,11 @@ export class RAGService {
 
   async clearIndex(): Promise<void> {
     try {
-      await this.weaviateService.deleteAllChunks();
+      await this.vectorStore.deleteAll();
       console.log('✅ Cleared all indexed documents');
     } catch (error) {
       console.error('❌ Failed to clear index:', error);
       throw error;
     }
   }
-}
+}
\ No newline at end of file
@@ -0,0 +1,81 @@
+import { BucketSpec, BucketState, RateLimitStore } from '@/types/rate-limit';
+
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+  // When the bucket will be full again, so it can be forgotten
+  fullAt: number;
+}
+
+/**
+ * Process-local counters (default). Limits are per replica and reset on
+ * restart; use the Redis store to share them.
+ */
+export class InMemoryRateLimitStore implements RateLimitStore {
+  public readonly name = 'memory';
+  private buckets = new Map<string, Bucket>();
+  private counters = new Map<string, { value: number; expiresAt: number }>();
+  private sweepInterval: NodeJS.Timeout | null = null;
+
+  async initialize(): Promise<void> {
+    // Full buckets and expired counters behave exactly like missing ones
+    this.sweepInterval = setInterval(() => this.sweep(), SWEEP_INTERVAL_MS);
+    this.sweepInterval.unref();
+
+    console.log('✅ In-memory rate limit store initialized');
+  }
+
+  async take(specs: BucketSpec[], cost: number): Promise<BucketState[]> {
+    const now = Date.now();
+    const refilled = specs.map(({ key, capacity, refillPerMs }) => {
+      const bucket = this.buckets.get(key);
+      return bucket
+        ? Math.min(capacity, bucket.tokens + (now - bucket.updatedAt) * refillPerMs)
+        : capacity;
+    });
+    const allowed = refilled.every(tokens => tokens >= cost);
+
+    return specs.map(({ key, capacity, refillPerMs }, index) => {
+      const available = refilled[index] as number;
+      const tokens = allowed ? available - cost : available;
+
+      this.buckets.set(key, { tokens, updatedAt: now, fullAt: now + (capacity - tokens) / refillPerMs });
+      return { allowed: available >= cost, tokens };
+    });
+  }
+
+  async increment(key: string, amount: number, ttlSeconds: number): Promise<number> {
+    const now = Date.now();
+    const counter = this.counters.get(key);
+    const value = (counter && counter.expiresAt > now ? counter.value : 0) + amount;
+
+    this.counters.set(key, { value, expiresAt: now + ttlSeconds * 1000 });
+    return value;
+  }
+
+  async get(key: string): Promise<number> {
+    const counter = this.counters.get(key);
+    return counter && counter.expiresAt > Date.now() ? counter.value : 0;
+  }
+
+  async close(): Promise<void> {
+    if (this.sweepInterval) {
+      clearInterval(this.sweepInterval);
+    }
+    this.buckets.clear();
+    this.counters.clear();
+  }
+
+  private sweep(): void {
+    const now = Date.now();
+
+    for (const [key, bucket] of this.buckets) {
+      if (bucket.fullAt <= now) this.buckets.delete(key);
+    }
+    for (const [key, counter] of this.counters) {
+      if (counter.expiresAt <= now) this.counters.delete(key);
+    }
+  }
+}
@@ -0,0 +1,20 @@
+import { config } from '@/config';
+import { RateLimitStore, RateLimitStoreName } from '@/types/rate-limit';
+import { InMemoryRateLimitStore } from '@/services/rate-limit-store/in-memory';
+import { RedisRateLimitStore } from '@/services/rate-limit-store/redis';
+
+// Rate limit counter registry - add new backends here
+const stores: Record<RateLimitStoreName, () => RateLimitStore> = {
+  memory: () => new InMemoryRateLimitStore(),
+  redis: () => new RedisRateLimitStore(config.redis.url, config.rateLimit.redisKeyPrefix),
+};
+
+export function createRateLimitStore(name: RateLimitStoreName = config.rateLimit.store): RateLimitStore {
+  const factory = stores[name];
+  if (!factory) {
+    throw new Error(`Unknown rate limit store: ${name}`);
+  }
+
+  console.log(`🚦 Using rate limit store: ${name}`);
+  return factory();
+}
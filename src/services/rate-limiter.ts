@@ -0,0 +1,180 @@
+import { config } from '@/config';
+import { BucketState, RateLimitDimension, RateLimitIdentity, RateLimitState, RateLimitStore } from '@/types/rate-limit';
+
+const MINUTE_MS = 60 * 1000;
+// Daily counters outlive their day by this much, so a late increment can't restart one
+const QUOTA_TTL_SLACK_SECONDS = 60 * 60;
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  // The limit that refused the request, or else the one closest to running out; null when nothing applies
+  state: RateLimitState | null;
+}
+
+function secondsUntilMidnightUTC(now = new Date()): number {
+  const midnight = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1);
+  return Math.ceil((midnight - now.getTime()) / 1000);
+}
+
+function quotaState(dimension: RateLimitDimension, limit: number, used: number): RateLimitState {
+  const resetSeconds = secondsUntilMidnightUTC();
+
+  return {
+    dimension,
+    limit,
+    remaining: Math.max(limit - used, 0),
+    resetSeconds,
+    ...(used > limit && { retryAfterSeconds: resetSeconds }),
+  };
+}
+
+function mostConstrained(states: RateLimitState[]): RateLimitState | null {
+  return states.reduce<RateLimitState | null>(
+    (tightest, state) => (!tightest || state.remaining / state.limit < tightest.remaining / tightest.limit ? state : tightest),
+    null
+  );
+}
+
+/**
+ * Token-bucket rate limits per API key, per session and per IP, plus daily
+ * quotas on requests and LLM tokens per client (the API key, or the IP without
+ * one). Each bucket holds a minute's worth of requests and refills
+ * continuously. If the counter store fails, requests are let through: a
+ * broken limiter shouldn't take the API down with it.
+ */
+export class RateLimiter {
+  private store: RateLimitStore;
+
+  constructor(store: RateLimitStore) {
+    this.store = store;
+  }
+
+  async initialize(): Promise<void> {
+    await this.store.initialize();
+  }
+
+  // Count one request against every limit that applies. A refused request isn't counted against
+  // the others: buckets are taken all or nothing, and the daily count is handed back
+  async consume(identity: RateLimitIdentity): Promise<RateLimitDecision> {
+    try {
+      const states: RateLimitState[] = [];
+
+      // Counted first: once over the quota, the counter only records refusals
+      const limit = config.rateLimit.dailyRequests;
+      const quotaKey = this.quotaKey('requests', identity);
+      if (limit > 0) {
+        const used = await this.store.increment(quotaKey, 1, this.quotaTtl());
+        const state = quotaState('daily_requests', limit, used);
+        if (state.retryAfterSeconds !== undefined) {
+          return { allowed: false, state };
+        }
+        states.push(state);
+      }
+
+      const bucketStates = await this.takeTokens(identity);
+      const refused = bucketStates.find(state => state.retryAfterSeconds !== undefined);
+      if (refused) {
+        if (limit > 0) {
+          await this.store.increment(quotaKey, -1, this.quotaTtl());
+        }
+        return { allowed: false, state: refused };
+      }
+      states.push(...bucketStates);
+
+      return { allowed: true, state: mostConstrained(states) };
+    } catch (error) {
+      console.warn('⚠️ Rate limit check failed, letting the request through:', error instanceof Error ? error.message : error);
+      return { allowed: true, state: null };
+    }
+  }
+
+  // Refuses once today's LLM tokens reach the quota; the turn that crosses it still completes
+  async checkTokenQuota(identity: RateLimitIdentity): Promise<RateLimitDecision> {
+    const limit = config.rateLimit.dailyLlmTokens;
+    if (limit <= 0) {
+      return { allowed: true, state: null };
+    }
+
+    try {
+      const used = await this.store.get(this.quotaKey('llm_tokens', identity));
+      const state = quotaState('daily_llm_tokens', limit, used);
+
+      return used >= limit
+        ? { allowed: false, state: { ...state, retryAfterSeconds: state.resetSeconds } }
+        : { allowed: true, state };
+    } catch (error) {
+      console.warn('⚠️ Token quota check failed, letting the request through:', error instanceof Error ? error.message : error);
+      return { allowed: true, state: null };
+    }
+  }
+
+  async recordTokens(identity: RateLimitIdentity, tokens: number): Promise<void> {
+    if (config.rateLimit.dailyLlmTokens <= 0 || tokens <= 0) return;
+
+    try {
+      await this.store.increment(this.quotaKey('llm_tokens', identity), Math.ceil(tokens), this.quotaTtl());
+    } catch (error) {
+      console.warn('⚠️ Failed to record LLM token usage:', error instanceof Error ? error.message : error);
+    }
+  }
+
+  async close(): Promise<void> {
+    await this.store.close();
+  }
+
+  // [dimension, bucket id, requests per minute] for each configured limit that applies
+  private buckets(identity: RateLimitIdentity): Array<[RateLimitDimension, string, number]> {
+    const { keyPerMinute, sessionPerMinute, ipPerMinute } = config.rateLimit;
+    const buckets: Array<[RateLimitDimension, string, number]> = [];
+
+    if (identity.key && keyPerMinute > 0) buckets.push(['key', identity.key, keyPerMinute]);
+    // Session ids are only unique per client, like session memory
+    if (identity.session && sessionPerMinute > 0) buckets.push(['session', `${this.client(identity)}:${identity.session}`, sessionPerMinute]);
+    if (ipPerMinute > 0) buckets.push(['ip', identity.ip, ipPerMinute]);
+
+    return buckets;
+  }
+
+  // One token from each bucket that applies; the states of those that were short carry retryAfterSeconds
+  private async takeTokens(identity: RateLimitIdentity): Promise<RateLimitState[]> {
+    const buckets = this.buckets(identity);
+    if (buckets.length === 0) {
+      return [];
+    }
+
+    const taken = await this.store.take(
+      buckets.map(([dimension, id, perMinute]) => ({
+        key: `bucket:${dimension}:${id}`,
+        capacity: perMinute,
+        refillPerMs: perMinute / MINUTE_MS,
+      })),
+      1
+    );
+
+    return buckets.map(([dimension, , perMinute], index) => {
+      const refillPerMs = perMinute / MINUTE_MS;
+      const { allowed, tokens } = taken[index] as BucketState;
+
+      return {
+        dimension,
+        limit: perMinute,
+        remaining: Math.floor(tokens),
+        resetSeconds: Math.ceil((perMinute - tokens) / refillPerMs / 1000),
+        ...(!allowed && { retryAfterSeconds: Math.max(Math.ceil((1 - tokens) / refillPerMs / 1000), 1) }),
+      };
+    });
+  }
+
+  private client(identity: RateLimitIdentity): string {
+    return identity.key ? `key:${identity.key}` : `ip:${identity.ip}`;
+  }
+
+  private quotaKey(quota: 'requests' | 'llm_tokens', identity: RateLimitIdentity): string {
+    const day = new Date().toISOString().slice(0, 10);
+    return `quota:${quota}:${this.client(identity)}:${day}`;
+  }
+
+  private quotaTtl(): number {
+    return secondsUntilMidnightUTC() + QUOTA_TTL_SLACK_SECONDS;
+  }
+}
@@ -0,0 +1,19 @@
+import { ILLMService } from '@/types/llm';
+import { Reranker, RerankerName } from '@/types/rag';
+import { LLMReranker } from '@/services/rerankers/llm';
+import { LexicalReranker } from '@/services/rerankers/lexical';
+
+// Reranker registry - add new scorers here
+const rerankers: Record<Exclude<RerankerName, 'none'>, (llmService: ILLMService) => Reranker> = {
+  llm: (llmService) => new LLMReranker(llmService),
+  lexical: () => new LexicalReranker(),
+};
+
+export function createReranker(name: Exclude<RerankerName, 'none'>, llmService: ILLMService): Reranker {
+  const factory = rerankers[name];
+  if (!factory) {
+    throw new Error(`Unknown reranker: ${name}`);
+  }
+
+  return factory(llmService);
+}
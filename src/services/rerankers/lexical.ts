@@ -0,0 +1,26 @@
+import { Reranker, VectorSearchResult } from '@/types/rag';
+import { tokenize } from '@/services/retrieval/bm25';
+
+/**
+ * Cheap local reranker: the share of distinct query terms that appear in the chunk.
+ * No model calls, so it is safe to use on every request.
+ */
+export class LexicalReranker implements Reranker {
+  public readonly name = 'lexical';
+
+  async score(query: string, candidates: VectorSearchResult[]): Promise<number[]> {
+    const queryTerms = new Set(tokenize(query));
+    if (queryTerms.size === 0) {
+      return candidates.map(() => 0);
+    }
+
+    return candidates.map(candidate => {
+      const chunkTerms = new Set(tokenize(candidate.content));
+      let matched = 0;
+      for (const term of queryTerms) {
+        if (chunkTerms.has(term)) matched++;
+      }
+      return matched / queryTerms.size;
+    });
+  }
+}
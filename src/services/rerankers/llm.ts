@@ -0,0 +1,63 @@
+import { ILLMService } from '@/types/llm';
+import { Reranker, VectorSearchResult } from '@/types/rag';
+
+// Long chunks are cut so one judging prompt stays small
+const MAX_PASSAGE_CHARS = 800;
+
+/**
+ * LLM-as-judge reranker: a single completion grades every candidate 0-10
+ * for how well it answers the query.
+ */
+export class LLMReranker implements Reranker {
+  public readonly name = 'llm';
+  private llmService: ILLMService;
+
+  constructor(llmService: ILLMService) {
+    this.llmService = llmService;
+  }
+
+  async score(query: string, candidates: VectorSearchResult[]): Promise<number[]> {
+    if (candidates.length === 0) {
+      return [];
+    }
+
+    const passages = candidates
+      .map((candidate, index) => `[${index + 1}] ${candidate.content.slice(0, MAX_PASSAGE_CHARS)}`)
+      .join('\n\n');
+
+    const response = await this.llmService.generateCompletion({
+      messages: [
+        {
+          role: 'system',
+          content: 'You grade search results. For each numbered passage, rate from 0 to 10 how well it helps answer the query '
+            + '(10 = directly answers it, 0 = unrelated). Respond with JSON only: {"scores": [<one number per passage, in order>]}',
+        },
+        {
+          role: 'user',
+          content: `## QUERY\n${query}\n\n## PASSAGES\n${passages}`,
+        },
+      ],
+      temperature: 0,
+      maxTokens: 20 + candidates.length * 6,
+    });
+
+    return parseScores(response.content, candidates.length);
+  }
+}
+
+// Accept the JSON object, a bare array, or JSON wrapped in prose/code fences
+function parseScores(content: string, expected: number): number[] {
+  const match = content.match(/\{[\s\S]*\}|\[[\s\S]*\]/);
+  if (!match) {
+    throw new Error(`Reranker returned no scores: ${content.slice(0, 200)}`);
+  }
+
+  const parsed = JSON.parse(match[0]);
+  const scores: unknown = Array.isArray(parsed) ? parsed : parsed.scores;
+
+  if (!Array.isArray(scores) || scores.length !== expected) {
+    throw new Error(`Reranker returned ${Array.isArray(scores) ? scores.length : 0} scores for ${expected} passages`);
+  }
+
+  return scores.map(score => Math.min(Math.max(Number(score) || 0, 0), 10) / 10);
+}
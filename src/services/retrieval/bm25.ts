@@ -0,0 +1,117 @@
+// Okapi BM25 defaults
+const K1 = 1.2;
+const B = 0.75;
+
+interface IndexedDocument {
+  length: number;
+  termFrequencies: Map<string, number>;
+}
+
+/**
+ * Lowercased alphanumeric terms. Identifiers such as `ERR-404`, `sku_123` or
+ * `v1.2.0` are kept whole and also indexed by their parts, so both the exact
+ * code and its pieces match.
+ */
+export function tokenize(text: string): string[] {
+  const terms: string[] = [];
+
+  for (const match of text.toLowerCase().matchAll(/[\p{L}\p{N}]+(?:[-_.][\p{L}\p{N}]+)*/gu)) {
+    const term = match[0];
+    terms.push(term);
+
+    if (/[-_.]/.test(term)) {
+      terms.push(...term.split(/[-_.]/).filter(Boolean));
+    }
+  }
+
+  return terms;
+}
+
+/**
+ * In-memory inverted index with BM25 scoring, for lexical retrieval next to vector search
+ */
+export class BM25Index {
+  private documents = new Map<string, IndexedDocument>();
+  private postings = new Map<string, Set<string>>();
+  private totalLength = 0;
+
+  add(id: string, text: string): void {
+    this.remove(id);
+
+    const terms = tokenize(text);
+    const termFrequencies = new Map<string, number>();
+    for (const term of terms) {
+      termFrequencies.set(term, (termFrequencies.get(term) || 0) + 1);
+    }
+
+    for (const term of termFrequencies.keys()) {
+      let posting = this.postings.get(term);
+      if (!posting) {
+        posting = new Set();
+        this.postings.set(term, posting);
+      }
+      posting.add(id);
+    }
+
+    this.documents.set(id, { length: terms.length, termFrequencies });
+    this.totalLength += terms.length;
+  }
+
+  remove(id: string): void {
+    const document = this.documents.get(id);
+    if (!document) {
+      return;
+    }
+
+    for (const term of document.termFrequencies.keys()) {
+      const posting = this.postings.get(term);
+      posting?.delete(id);
+      if (posting?.size === 0) {
+        this.postings.delete(term);
+      }
+    }
+
+    this.documents.delete(id);
+    this.totalLength -= document.length;
+  }
+
+  clear(): void {
+    this.documents.clear();
+    this.postings.clear();
+    this.totalLength = 0;
+  }
+
+  // `accept` restricts scoring to documents that pass a caller-side filter
+  search(query: string, limit: number, accept?: (id: string) => boolean): Array<{ id: string; score: number }> {
+    const documentCount = this.documents.size;
+    if (documentCount === 0) {
+      return [];
+    }
+
+    const averageLength = this.totalLength / documentCount;
+    const scores = new Map<string, number>();
+
+    for (const term of new Set(tokenize(query))) {
+      const posting = this.postings.get(term);
+      if (!posting) continue;
+
+      const idf = Math.log(1 + (documentCount - posting.size + 0.5) / (posting.size + 0.5));
+
+      for (const id of posting) {
+        if (accept && !accept(id)) continue;
+
+        const document = this.documents.get(id) as IndexedDocument;
+        const frequency = document.termFrequencies.get(term) || 0;
+        const normalization = K1 * (1 - B + B * (document.length / averageLength));
+        const score = idf * (frequency * (K1 + 1)) / (frequency + normalization);
+
+        scores.set(id, (scores.get(id) || 0) + score);
+      }
+    }
+
+    return [...scores.entries()]
+      .map(([id, score]) => ({ id, score }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+  }
+}
@@ -0,0 +1,85 @@
+import { FieldCondition, MetadataFilter, VectorChunk } from '@/types/rag';
+
+type Scalar = string | number | boolean;
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}(T[\d:.]+(Z|[+-]\d{2}:?\d{2})?)?$/;
+
+export function isIsoDate(value: unknown): value is string {
+  return typeof value === 'string' && ISO_DATE.test(value) && !Number.isNaN(Date.parse(value));
+}
+
+// `source` lives on the chunk itself; every other field is read from metadata
+function fieldValue(chunk: VectorChunk, field: string): unknown {
+  return field === 'source' ? chunk.source : chunk.metadata[field];
+}
+
+function asArray(value: unknown): unknown[] {
+  return Array.isArray(value) ? value : value === undefined || value === null ? [] : [value];
+}
+
+// Array-valued metadata (e.g. tags) matches when any element equals the expected value
+function equals(value: unknown, expected: Scalar): boolean {
+  return asArray(value).some(item => item === expected);
+}
+
+// Numbers compare numerically, ISO dates chronologically, other strings lexically
+function compare(value: unknown, bound: string | number): number | null {
+  if (typeof value === 'number' && typeof bound === 'number') {
+    return value - bound;
+  }
+
+  if (isIsoDate(value) && isIsoDate(bound)) {
+    return Date.parse(value) - Date.parse(bound);
+  }
+
+  if (typeof value === 'string' && typeof bound === 'string') {
+    return value.localeCompare(bound);
+  }
+
+  return null;
+}
+
+function matchesCondition(value: unknown, condition: FieldCondition): boolean {
+  const checks: boolean[] = [];
+
+  if (condition.eq !== undefined) checks.push(equals(value, condition.eq));
+  if (condition.ne !== undefined) checks.push(!equals(value, condition.ne));
+  if (condition.in) checks.push(condition.in.some(expected => equals(value, expected)));
+  if (condition.any) checks.push(condition.any.some(expected => equals(value, expected)));
+  if (condition.all) checks.push(condition.all.every(expected => equals(value, expected)));
+
+  const ranges: Array<[string | number | undefined, (difference: number) => boolean]> = [
+    [condition.gt, difference => difference > 0],
+    [condition.gte, difference => difference >= 0],
+    [condition.lt, difference => difference < 0],
+    [condition.lte, difference => difference <= 0],
+  ];
+
+  for (const [bound, test] of ranges) {
+    if (bound === undefined) continue;
+    const difference = compare(value, bound);
+    checks.push(difference !== null && test(difference));
+  }
+
+  return checks.every(Boolean);
+}
+
+/**
+ * Evaluate a search filter against a chunk in process, for stores without
+ * native filtering. Mirrors the Weaviate `where` translation.
+ */
+export function matchesFilter(chunk: VectorChunk, filter: MetadataFilter): boolean {
+  return Object.entries(filter).every(([field, condition]) => {
+    const value = fieldValue(chunk, field);
+
+    if (Array.isArray(condition)) {
+      return condition.some(expected => equals(value, expected));
+    }
+
+    if (typeof condition === 'object') {
+      return matchesCondition(value, condition);
+    }
+
+    return equals(value, condition);
+  });
+}
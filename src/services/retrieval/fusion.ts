@@ -0,0 +1,34 @@
+// Standard RRF constant; dampens the advantage of the very top ranks
+export const RRF_K = 60;
+
+export interface WeightedRanking {
+  weight: number;
+  // Document IDs, best first
+  ids: string[];
+}
+
+/**
+ * Weighted reciprocal rank fusion. Scores are normalized to 0..1, where 1 means
+ * the document ranked first in every list that carries weight.
+ */
+export function reciprocalRankFusion(rankings: WeightedRanking[]): Map<string, number> {
+  const totalWeight = rankings.reduce((sum, ranking) => sum + ranking.weight, 0);
+  const scores = new Map<string, number>();
+
+  if (totalWeight <= 0) {
+    return scores;
+  }
+
+  const maxScore = totalWeight / (RRF_K + 1);
+
+  for (const { weight, ids } of rankings) {
+    if (weight <= 0) continue;
+
+    ids.forEach((id, index) => {
+      const contribution = weight / (RRF_K + index + 1);
+      scores.set(id, (scores.get(id) || 0) + contribution / maxScore);
+    });
+  }
+
+  return scores;
+}
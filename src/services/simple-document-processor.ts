@@ -1,6 +1,7 @@
 import fs from 'fs/promises';
 import path from 'path';
 import { v4 as uuidv4 } from 'uuid';
+import { isSupportedDocument, loadDocument } from '@/services/loaders';
 
 export interface SimpleChunk {
   id: string;
@@ -21,11 +22,11 @@ export class SimpleDocumentProcessor {
     this.documentsPath = path.join(process.cwd(), 'data', 'documents');
   }
 
-  async getMarkdownFiles(): Promise<string[]> {
+  async getDocumentFiles(): Promise<string[]> {
     try {
       const files = await fs.readdir(this.documentsPath);
       return files
-        .filter(file => file.endsWith('.md') && file !== 'README.md')
+        .filter(file => isSupportedDocument(file) && file !== 'README.md')
         .map(file => path.join(this.documentsPath, file));
     } catch (error) {
       console.error('❌ Failed to read documents directory:', error);
@@ -41,8 +42,8 @@ export class SimpleDocumentProcessor {
     const fileName = path.basename(filePath);
 
     try {
-      // Read file content
-      const content = await fs.readFile(filePath, 'utf-8');
+      // Read file content through the loader for its format
+      const content = await this.readDocumentText(filePath);
 
       // Simple cleaning - just remove extra whitespace
       const cleanedContent = content.replace(/\s+/g, ' ').trim();
@@ -71,6 +72,11 @@ export class SimpleDocumentProcessor {
     }
   }
 
+  private async readDocumentText(filePath: string): Promise<string> {
+    const document = await loadDocument(await fs.readFile(filePath), path.basename(filePath));
+    return document.sections.map(section => section.text).join('\n\n');
+  }
+
   private simpleSplitIntoChunks(
     content: string,
     maxTokens: number,
@@ -107,7 +113,7 @@ export class SimpleDocumentProcessor {
     files: Array<{ name: string; size: number; chunks: number }>;
   }> {
     try {
-      const files = await this.getMarkdownFiles();
+      const files = await this.getDocumentFiles();
       const stats = {
         totalFiles: files.length,
         totalChunks: 0,
@@ -117,7 +123,7 @@ export class SimpleDocumentProcessor {
       for (const filePath of files) {
         const fileName = path.basename(filePath);
         const fileStats = await fs.stat(filePath);
-        const content = await fs.readFile(filePath, 'utf-8');
+        const content = await this.readDocumentText(filePath);
         const cleanedContent = content.replace(/\s+/g, ' ').trim();
         const chunks = this.simpleSplitIntoChunks(cleanedContent, 50, 10);
 
@@ -0,0 +1,55 @@
+import { config } from '@/config';
+import { ILLMService } from '@/types/llm';
+import { MemoryMessage } from '@/types/memory';
+
+// Used when the LLM is unavailable: keep the tail of a plain transcript
+const FALLBACK_SUMMARY_CHARS = 1500;
+
+/**
+ * Folds messages evicted from a session's window into a running summary
+ * so older context survives past MAX_MEMORY_MESSAGES.
+ */
+export class ConversationSummarizer {
+  private llmService: ILLMService;
+
+  constructor(llmService: ILLMService) {
+    this.llmService = llmService;
+  }
+
+  async summarize(previousSummary: string | undefined, evicted: MemoryMessage[]): Promise<string> {
+    const transcript = evicted
+      .map(msg => `${msg.role}: ${msg.content}`)
+      .join('\n');
+
+    try {
+      const response = await this.llmService.generateCompletion({
+        messages: [
+          {
+            role: 'system',
+            content: 'You maintain a running summary of a conversation between a user and an AI assistant. '
+              + 'Keep facts, names, numbers, user preferences, decisions and open questions. '
+              + 'Drop greetings and filler. Write at most 150 words in plain prose.',
+          },
+          {
+            role: 'user',
+            content: `## CURRENT SUMMARY\n${previousSummary || '(none yet)'}\n\n## NEW MESSAGES\n${transcript}\n\n## UPDATED SUMMARY\n`,
+          },
+        ],
+        temperature: 0.2,
+        maxTokens: config.memory.summaryMaxTokens,
+      });
+
+      const summary = response.content.trim();
+      if (summary) {
+        return summary;
+      }
+    } catch (error) {
+      console.warn('⚠️ Conversation summarization failed, using plain transcript:', error instanceof Error ? error.message : error);
+    }
+
+    const combined = [previousSummary, transcript].filter(Boolean).join('\n');
+    return combined.length > FALLBACK_SUMMARY_CHARS
+      ? `...${combined.slice(-FALLBACK_SUMMARY_CHARS)}`
+      : combined;
+  }
+}
\ No newline at end of file
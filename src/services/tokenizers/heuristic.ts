@@ -0,0 +1,16 @@
+import { Tokenizer } from '@/types/llm';
+
+const CHARS_PER_TOKEN = 4;
+
+// Rough estimation: 1 token ≈ 4 characters for English text. No dependencies, never exact.
+export class HeuristicTokenizer implements Tokenizer {
+  public readonly name = 'heuristic';
+
+  count(text: string): number {
+    return Math.ceil(text.length / CHARS_PER_TOKEN);
+  }
+
+  truncate(text: string, maxTokens: number): string {
+    return text.slice(0, Math.max(maxTokens, 0) * CHARS_PER_TOKEN);
+  }
+}
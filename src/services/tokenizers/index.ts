@@ -0,0 +1,33 @@
+import { config } from '@/config';
+import { Tokenizer, TokenizerName } from '@/types/llm';
+import { HeuristicTokenizer } from '@/services/tokenizers/heuristic';
+import { TiktokenTokenizer } from '@/services/tokenizers/tiktoken';
+
+// Tokenizer registry - add new encodings here
+const tokenizers: Record<TokenizerName, () => Tokenizer> = {
+  heuristic: () => new HeuristicTokenizer(),
+  cl100k: () => new TiktokenTokenizer('cl100k', 'cl100k_base'),
+  o200k: () => new TiktokenTokenizer('o200k', 'o200k_base'),
+};
+
+export function createTokenizer(name: TokenizerName = config.tokenizer.name): Tokenizer {
+  const factory = tokenizers[name];
+  if (!factory) {
+    throw new Error(`Unknown tokenizer: ${name}`);
+  }
+
+  console.log(`🔢 Using tokenizer: ${name}`);
+  return factory();
+}
+
+let shared: Tokenizer | null = null;
+
+// Process-wide tokenizer from TOKENIZER, created on first use (BPE ranks take a moment to load)
+export function getTokenizer(): Tokenizer {
+  shared = shared || createTokenizer();
+  return shared;
+}
+
+export function countTokens(text: string): number {
+  return getTokenizer().count(text);
+}
@@ -0,0 +1,35 @@
+import { getEncoding, Tiktoken, TiktokenEncoding } from 'js-tiktoken';
+import { Tokenizer, TokenizerName } from '@/types/llm';
+
+/**
+ * BPE tokenizer from js-tiktoken. Exact for OpenAI models using the encoding
+ * and a close proxy for other providers (Gemini tokenizes differently).
+ */
+export class TiktokenTokenizer implements Tokenizer {
+  public readonly name: TokenizerName;
+  private encoding: Tiktoken;
+
+  constructor(name: TokenizerName, encoding: TiktokenEncoding) {
+    this.name = name;
+    this.encoding = getEncoding(encoding);
+  }
+
+  count(text: string): number {
+    return this.encode(text).length;
+  }
+
+  truncate(text: string, maxTokens: number): string {
+    const tokens = this.encode(text);
+    if (tokens.length <= maxTokens) {
+      return text;
+    }
+
+    // A cut can land inside a multi-byte character; drop the replacement character it decodes to
+    return this.encoding.decode(tokens.slice(0, Math.max(maxTokens, 0))).replace(/�+$/, '');
+  }
+
+  // Special tokens like <|endoftext|> in user text are plain text, not control tokens (encode would throw)
+  private encode(text: string): number[] {
+    return this.encoding.encode(text, [], []);
+  }
+}
@@ -0,0 +1,32 @@
+import path from 'path';
+import { config } from '@/config';
+import { IEmbeddingService, VectorStore, VectorStoreName } from '@/types/rag';
+import { WeaviateService } from '@/services/vector-store/weaviate';
+import { LocalVectorStore } from '@/services/vector-store/local';
+import { collectionFilePath, DEFAULT_COLLECTION } from '@/services/collections';
+
+// Vector store registry - add new backends here. Each collection gets its own index.
+const stores: Record<VectorStoreName, (embeddingService: IEmbeddingService, collection: string) => VectorStore> = {
+  weaviate: (embeddingService, collection) => new WeaviateService(
+    collection === DEFAULT_COLLECTION ? 'DocumentChunk' : `DocumentChunk_${collection}`,
+    embeddingService
+  ),
+  local: (embeddingService, collection) => new LocalVectorStore(
+    embeddingService,
+    config.vectorStore.path ? collectionFilePath(path.resolve(config.vectorStore.path), collection) : undefined
+  ),
+};
+
+export function createVectorStore(
+  embeddingService: IEmbeddingService,
+  collection: string = DEFAULT_COLLECTION,
+  name: VectorStoreName = config.vectorStore.provider
+): VectorStore {
+  const factory = stores[name];
+  if (!factory) {
+    throw new Error(`Unknown vector store: ${name}`);
+  }
+
+  console.log(`🗄️ Using vector store: ${name} (collection: ${collection})`);
+  return factory(embeddingService, collection);
+}
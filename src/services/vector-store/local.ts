@@ -0,0 +1,265 @@
+import fs from 'fs/promises';
+import path from 'path';
+import {
+  IEmbeddingService,
+  VectorStore,
+  VectorChunk,
+  VectorSearchOptions,
+  VectorSearchResult,
+  VectorSourceSummary,
+  VectorStoreStats
+} from '@/types/rag';
+import { BM25Index } from '@/services/retrieval/bm25';
+import { reciprocalRankFusion } from '@/services/retrieval/fusion';
+import { matchesFilter } from '@/services/retrieval/filters';
+
+interface StoredEntry {
+  chunk: VectorChunk;
+  vector: number[];
+}
+
+// Each retriever contributes this many candidates per requested result before fusion
+const HYBRID_CANDIDATE_FACTOR = 4;
+
+interface PersistedStore {
+  version: 1;
+  // Embedding model the vectors came from (absent in files written before it was recorded)
+  embeddingModel?: string;
+  entries: StoredEntry[];
+}
+
+/**
+ * In-process vector store using brute-force cosine similarity.
+ * Embeddings come from the injected IEmbeddingService; when a file path is
+ * given the index is persisted as JSON so it survives restarts. A BM25 index
+ * is kept alongside (rebuilt on load, never persisted) for hybrid search.
+ */
+export class LocalVectorStore implements VectorStore {
+  public readonly name = 'local';
+  private entries = new Map<string, StoredEntry>();
+  private lexicalIndex = new BM25Index();
+  private embeddingService: IEmbeddingService;
+  private filePath: string | undefined;
+  private saving: Promise<void> | null = null;
+  private dirty = false;
+
+  constructor(embeddingService: IEmbeddingService, filePath?: string) {
+    this.embeddingService = embeddingService;
+    this.filePath = filePath;
+  }
+
+  async initialize(): Promise<void> {
+    if (!this.filePath) {
+      console.log('✅ Local vector store initialized (in-memory only)');
+      return;
+    }
+
+    try {
+      const raw = await fs.readFile(this.filePath, 'utf-8');
+      const persisted = JSON.parse(raw) as PersistedStore;
+
+      // Vectors from another model live in a different space; start empty so the next ingest re-embeds
+      if (persisted.embeddingModel && persisted.embeddingModel !== this.embeddingService.model) {
+        console.warn(
+          `⚠️ ${this.filePath} was embedded with ${persisted.embeddingModel}, now using ${this.embeddingService.model}; ` +
+          'discarding it - run /rag/process to re-index'
+        );
+        return;
+      }
+
+      for (const entry of persisted.entries) {
+        this.entries.set(entry.chunk.id, entry);
+        this.lexicalIndex.add(entry.chunk.id, entry.chunk.content);
+      }
+
+      console.log(`✅ Local vector store loaded ${this.entries.size} chunks from ${this.filePath}`);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+      console.log(`✅ Local vector store initialized (new index at ${this.filePath})`);
+    }
+  }
+
+  async addChunks(chunks: VectorChunk[]): Promise<void> {
+    if (chunks.length === 0) {
+      return;
+    }
+
+    const vectors = await this.embeddingService.embedBatch(chunks.map(chunk => chunk.content));
+
+    chunks.forEach((chunk, index) => {
+      this.entries.set(chunk.id, { chunk, vector: vectors[index] || [] });
+      this.lexicalIndex.add(chunk.id, chunk.content);
+    });
+
+    // Saved by flush(): rewriting the whole file per batch would make ingest quadratic
+    this.dirty = true;
+    console.log(`✅ Added ${chunks.length} chunks to local vector store`);
+  }
+
+  async flush(): Promise<void> {
+    // An in-flight save may already be writing these chunks; wait for it either way
+    await (this.dirty ? this.persist() : this.saving);
+  }
+
+  async search(query: string, limit: number = 3, options: VectorSearchOptions = {}): Promise<VectorSearchResult[]> {
+    const alpha = options.alpha ?? 1;
+    const { filters } = options;
+    const accept = filters
+      ? (chunk: VectorChunk) => matchesFilter(chunk, filters)
+      : () => true;
+
+    const vectorResults = alpha > 0 ? await this.vectorSearch(query, accept) : [];
+    if (alpha >= 1) {
+      return vectorResults.slice(0, limit);
+    }
+
+    // Hybrid: fuse the vector and BM25 rankings, each truncated to a candidate pool
+    const candidates = limit * HYBRID_CANDIDATE_FACTOR;
+    const fused = reciprocalRankFusion([
+      { weight: alpha, ids: vectorResults.slice(0, candidates).map(result => result.id) },
+      {
+        weight: 1 - alpha,
+        ids: this.lexicalIndex
+          .search(query, candidates, id => accept((this.entries.get(id) as StoredEntry).chunk))
+          .map(hit => hit.id),
+      },
+    ]);
+
+    return [...fused.entries()]
+      .sort(([, a], [, b]) => b - a)
+      .slice(0, limit)
+      .map(([id, score]) => ({ ...(this.entries.get(id) as StoredEntry).chunk, score }));
+  }
+
+  async listSources(): Promise<VectorSourceSummary[]> {
+    const counts = new Map<string, number>();
+
+    for (const { chunk } of this.entries.values()) {
+      counts.set(chunk.source, (counts.get(chunk.source) || 0) + 1);
+    }
+
+    return [...counts.entries()]
+      .map(([source, chunkCount]) => ({ source, chunkCount }))
+      .sort((a, b) => a.source.localeCompare(b.source));
+  }
+
+  async deleteBySource(source: string): Promise<number> {
+    let deleted = 0;
+
+    for (const [id, entry] of this.entries) {
+      if (entry.chunk.source === source) {
+        this.entries.delete(id);
+        this.lexicalIndex.remove(id);
+        deleted++;
+      }
+    }
+
+    if (deleted > 0) {
+      await this.persist();
+    }
+
+    return deleted;
+  }
+
+  async deleteAll(): Promise<void> {
+    this.entries.clear();
+    this.lexicalIndex.clear();
+    await this.persist();
+  }
+
+  async drop(): Promise<void> {
+    this.entries.clear();
+    this.lexicalIndex.clear();
+
+    if (!this.filePath) {
+      return;
+    }
+
+    // Let an in-flight save finish so it can't recreate the file afterwards
+    await this.saving;
+    await fs.rm(this.filePath, { force: true });
+  }
+
+  async getStats(): Promise<VectorStoreStats> {
+    return { totalChunks: this.entries.size };
+  }
+
+  async healthCheck(): Promise<boolean> {
+    return true;
+  }
+
+  private async vectorSearch(query: string, accept: (chunk: VectorChunk) => boolean): Promise<VectorSearchResult[]> {
+    const queryVector = await this.embeddingService.embed(query);
+
+    const scored: VectorSearchResult[] = [];
+    for (const { chunk, vector } of this.entries.values()) {
+      if (!accept(chunk)) continue;
+      scored.push({ ...chunk, score: cosineSimilarity(queryVector, vector) });
+    }
+
+    return scored.sort((a, b) => b.score - a.score);
+  }
+
+  // Writes are coalesced: while one save runs, further mutations just mark
+  // the store dirty and a single follow-up save picks them all up.
+  private async persist(): Promise<void> {
+    if (!this.filePath) {
+      return;
+    }
+
+    this.dirty = true;
+    if (this.saving) {
+      return this.saving;
+    }
+
+    this.saving = (async () => {
+      try {
+        while (this.dirty) {
+          this.dirty = false;
+          await this.writeFile(this.filePath as string);
+        }
+      } finally {
+        this.saving = null;
+      }
+    })();
+
+    return this.saving;
+  }
+
+  private async writeFile(filePath: string): Promise<void> {
+    const persisted: PersistedStore = {
+      version: 1,
+      embeddingModel: this.embeddingService.model,
+      entries: [...this.entries.values()],
+    };
+
+    // Write to a temp file and rename so a crash never leaves a truncated index
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    const tempPath = `${filePath}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(persisted));
+    await fs.rename(tempPath, filePath);
+  }
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  const length = Math.min(a.length, b.length);
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+
+  for (let i = 0; i < length; i++) {
+    const x = a[i] ?? 0;
+    const y = b[i] ?? 0;
+    dot += x * y;
+    normA += x * x;
+    normB += y * y;
+  }
+
+  if (normA === 0 || normB === 0) {
+    return 0;
+  }
+
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
\ No newline at end of file
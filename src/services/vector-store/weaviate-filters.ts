@@ -0,0 +1,72 @@
+import { WhereFilter } from 'weaviate-ts-client';
+import { FieldCondition, MetadataFilter } from '@/types/rag';
+import { isIsoDate } from '@/services/retrieval/filters';
+
+type Scalar = string | number | boolean;
+type Operator = NonNullable<WhereFilter['operator']>;
+
+// Pick the typed value slot Weaviate expects for a literal
+function typedValue(value: Scalar): Partial<WhereFilter> {
+  if (typeof value === 'number') return { valueNumber: value };
+  if (typeof value === 'boolean') return { valueBoolean: value };
+  if (isIsoDate(value)) return { valueDate: value };
+  return { valueText: value };
+}
+
+function typedArray(values: Scalar[]): Partial<WhereFilter> {
+  if (values.every(value => typeof value === 'number')) return { valueNumberArray: values as number[] };
+  if (values.every(value => typeof value === 'boolean')) return { valueBooleanArray: values as boolean[] };
+  if (values.every(isIsoDate)) return { valueDateArray: values as string[] };
+  return { valueTextArray: values.map(String) };
+}
+
+function compareOperand(operator: Operator, path: string[], value: Scalar): WhereFilter {
+  return { operator, path, ...typedValue(value) };
+}
+
+function listOperand(operator: Operator, path: string[], values: Scalar[]): WhereFilter {
+  return { operator, path, ...typedArray(values) };
+}
+
+function conditionOperands(path: string[], condition: FieldCondition): WhereFilter[] {
+  const operands: WhereFilter[] = [];
+
+  if (condition.eq !== undefined) operands.push(compareOperand('Equal', path, condition.eq));
+  if (condition.ne !== undefined) operands.push(compareOperand('NotEqual', path, condition.ne));
+  if (condition.in) operands.push(listOperand('ContainsAny', path, condition.in));
+  if (condition.any) operands.push(listOperand('ContainsAny', path, condition.any));
+  if (condition.all) operands.push(listOperand('ContainsAll', path, condition.all));
+  if (condition.gt !== undefined) operands.push(compareOperand('GreaterThan', path, condition.gt));
+  if (condition.gte !== undefined) operands.push(compareOperand('GreaterThanEqual', path, condition.gte));
+  if (condition.lt !== undefined) operands.push(compareOperand('LessThan', path, condition.lt));
+  if (condition.lte !== undefined) operands.push(compareOperand('LessThanEqual', path, condition.lte));
+
+  return operands;
+}
+
+/**
+ * Translate a search filter into a Weaviate `where` clause. Each field is a
+ * property of the class (metadata keys are stored as top-level properties),
+ * and all fields are ANDed together.
+ */
+export function toWhereFilter(filter: MetadataFilter): WhereFilter | undefined {
+  const operands = Object.entries(filter).flatMap(([field, condition]) => {
+    const path = [field];
+
+    if (Array.isArray(condition)) {
+      return [listOperand('ContainsAny', path, condition)];
+    }
+
+    if (typeof condition === 'object') {
+      return conditionOperands(path, condition);
+    }
+
+    return [compareOperand('Equal', path, condition)];
+  });
+
+  if (operands.length === 0) {
+    return undefined;
+  }
+
+  return operands.length === 1 ? operands[0] : { operator: 'And', operands };
+}
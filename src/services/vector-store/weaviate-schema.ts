@@ -0,0 +1,167 @@
+import { Property, WeaviateClass } from 'weaviate-ts-client';
+import { isIsoDate } from '@/services/retrieval/filters';
+
+interface DeclaredProperty extends Property {
+  name: string;
+  dataType: string[];
+  // Stored for display/filtering only, never fed to the vectorizer
+  skipVectorization?: boolean;
+}
+
+interface SchemaMigration {
+  version: number;
+  description: string;
+  properties: DeclaredProperty[];
+}
+
+/**
+ * Declared schema of a chunk class, as an ordered list of migrations.
+ * Migrations are additive only: never retype or rename a property in place,
+ * add a new version instead.
+ */
+const CHUNK_SCHEMA_MIGRATIONS: SchemaMigration[] = [
+  {
+    version: 1,
+    description: 'Chunk content and source',
+    properties: [
+      { name: 'content', dataType: ['text'] },
+      { name: 'source', dataType: ['text'], tokenization: 'field' },
+      { name: 'fileName', dataType: ['text'], tokenization: 'field' },
+      { name: 'processedAt', dataType: ['date'] },
+    ],
+  },
+  {
+    version: 2,
+    description: 'Chunk position and heading breadcrumbs',
+    properties: [
+      { name: 'chunkIndex', dataType: ['int'] },
+      { name: 'title', dataType: ['text'] },
+      { name: 'section', dataType: ['text'] },
+    ],
+  },
+  {
+    version: 3,
+    description: 'Full chunk metadata as JSON',
+    properties: [
+      { name: 'metadataJson', dataType: ['text'], indexSearchable: false, skipVectorization: true },
+    ],
+  },
+];
+
+export const CHUNK_SCHEMA_VERSION = CHUNK_SCHEMA_MIGRATIONS[CHUNK_SCHEMA_MIGRATIONS.length - 1]?.version ?? 0;
+
+export interface MigrationPlan {
+  // Highest version whose properties (and all earlier ones) are present
+  version: number;
+  // Migrations still to apply, narrowed to their missing properties
+  pending: SchemaMigration[];
+  // Differences that can't be fixed additively
+  drift: string[];
+}
+
+function toWeaviateProperty({ skipVectorization, ...property }: DeclaredProperty, vectorizer: string): Property {
+  return skipVectorization && vectorizer !== 'none'
+    ? { ...property, moduleConfig: { [vectorizer]: { skip: true } } }
+    : property;
+}
+
+// `string` is the pre-1.19 name for `text`
+function normalizeDataType(dataType: string[] | undefined): string {
+  return (dataType || []).map(type => type.replace(/^string/, 'text')).join(',');
+}
+
+// `vectorSource` is the vectorizer module, or the client-side embedding model when the vectorizer is `none`
+export function chunkClassDefinition(className: string, vectorizer: string, vectorSource: string): WeaviateClass {
+  return {
+    class: className,
+    description: `Document chunks (schema v${CHUNK_SCHEMA_VERSION}, vectors: ${vectorSource})`,
+    vectorizer,
+    properties: CHUNK_SCHEMA_MIGRATIONS.flatMap(migration =>
+      migration.properties.map(property => toWeaviateProperty(property, vectorizer))
+    ),
+  };
+}
+
+// Migration properties in the shape Weaviate's property creator expects
+export function migrationProperties(migration: SchemaMigration, vectorizer: string): Property[] {
+  return migration.properties.map(property => toWeaviateProperty(property, vectorizer));
+}
+
+/**
+ * Compare an existing class against the declared schema: which migrations
+ * still need to run and which properties or settings have drifted.
+ */
+export function planMigration(existing: WeaviateClass, vectorizer: string, vectorSource: string): MigrationPlan {
+  const actual = new Map((existing.properties || []).map(property => [property.name, property]));
+  const drift: string[] = [];
+  const pending: SchemaMigration[] = [];
+  let version = 0;
+
+  if (existing.vectorizer && existing.vectorizer !== vectorizer) {
+    drift.push(`vectorizer is '${existing.vectorizer}', configured '${vectorizer}'`);
+  }
+
+  // Classes created by this service record their vector source in the description
+  const recordedSource = existing.description?.match(/vectors: ([^)]+)\)/)?.[1];
+  if (recordedSource && recordedSource !== vectorSource) {
+    drift.push(`vectors come from '${recordedSource}', configured '${vectorSource}'`);
+  }
+
+  for (const migration of CHUNK_SCHEMA_MIGRATIONS) {
+    const missing = migration.properties.filter(property => !actual.has(property.name));
+
+    for (const property of migration.properties) {
+      const found = actual.get(property.name);
+      if (found && normalizeDataType(found.dataType) !== normalizeDataType(property.dataType)) {
+        drift.push(`property '${property.name}' is ${found.dataType?.join(',')}, schema v${migration.version} declares ${property.dataType.join(',')}`);
+      }
+    }
+
+    if (missing.length > 0) {
+      pending.push({ ...migration, properties: missing });
+    } else if (pending.length === 0) {
+      version = migration.version;
+    }
+  }
+
+  return { version, pending, drift };
+}
+
+// Weaviate data type for a metadata value, so new keys get a property before auto-schema guesses one
+export function inferDataType(value: unknown): string[] | null {
+  const itemType = (item: unknown): string | null => {
+    if (typeof item === 'number') return 'number';
+    if (typeof item === 'boolean') return 'boolean';
+    if (isIsoDate(item)) return 'date';
+    if (typeof item === 'string') return 'text';
+    return null;
+  };
+
+  if (Array.isArray(value)) {
+    const types = new Set(value.map(itemType));
+    // Empty and mixed-type arrays have no single Weaviate type; they only live in metadataJson
+    const [type] = [...types];
+    return types.size === 1 && type ? [`${type}[]`] : null;
+  }
+
+  const type = itemType(value);
+  return type ? [type] : null;
+}
+
+// Whether a metadata value fits an existing property. Besides an exact match, an ISO date string
+// still fits a text property, and whole numbers fit an int property made by auto-schema
+export function acceptsValue(dataType: string[] | undefined, value: unknown): boolean {
+  const declared = normalizeDataType(dataType);
+  const inferred = inferDataType(value)?.join(',');
+  if (!inferred || declared.endsWith('[]') !== inferred.endsWith('[]')) {
+    return false;
+  }
+
+  const declaredType = declared.replace('[]', '');
+  const inferredType = inferred.replace('[]', '');
+  const items = Array.isArray(value) ? value : [value];
+
+  return declaredType === inferredType
+    || (declaredType === 'text' && inferredType === 'date')
+    || (declaredType === 'int' && inferredType === 'number' && items.every(Number.isInteger));
+}
@@ -0,0 +1,388 @@
+import weaviate, { WeaviateClient, ObjectsBatcher, FusionType, Property } from 'weaviate-ts-client';
+import { config } from '@/config';
+import {
+  IEmbeddingService,
+  VectorStore,
+  VectorChunk,
+  VectorSearchOptions,
+  VectorSearchResult,
+  VectorSourceSummary,
+  VectorStoreStats
+} from '@/types/rag';
+import { RRF_K } from '@/services/retrieval/fusion';
+import { toWhereFilter } from '@/services/vector-store/weaviate-filters';
+import {
+  CHUNK_SCHEMA_VERSION,
+  acceptsValue,
+  chunkClassDefinition,
+  inferDataType,
+  migrationProperties,
+  planMigration
+} from '@/services/vector-store/weaviate-schema';
+
+export class WeaviateService implements VectorStore {
+  public readonly name = 'weaviate';
+  private client: WeaviateClient;
+  private className: string;
+  private vectorizer: string;
+  // Used when WEAVIATE_VECTORIZER=none: chunks and queries are embedded here and sent as explicit vectors
+  private embeddingService: IEmbeddingService;
+  // Properties the class already has, with their data types; metadata keys outside it get a property first
+  private knownProperties = new Map<string, string[]>();
+  // Metadata keys already reported for values that don't fit their property's type
+  private conflictingKeys = new Set<string>();
+  private schemaReady = false;
+
+  constructor(className: string, embeddingService: IEmbeddingService) {
+    this.className = className;
+    this.vectorizer = config.weaviate.vectorizer;
+    this.embeddingService = embeddingService;
+
+    // Scheme and port come from WEAVIATE_URL, so http://localhost:8080 works as well as a cloud cluster
+    const url = new URL(/^https?:\/\//.test(config.weaviate.url) ? config.weaviate.url : `https://${config.weaviate.url}`);
+
+    this.client = weaviate.client({
+      scheme: url.protocol.replace(':', ''),
+      host: url.host,
+      ...(config.weaviate.apiKey && { apiKey: new weaviate.ApiKey(config.weaviate.apiKey) }),
+      headers: {
+        'X-Weaviate-Cluster-Url': config.weaviate.url,
+      },
+    });
+  }
+
+  // An unreachable Weaviate doesn't stop startup: the server runs degraded and the schema
+  // is set up before the first write once it's reachable
+  async initialize(): Promise<void> {
+    try {
+      await this.ensureSchema();
+    } catch (error) {
+      console.warn(
+        `⚠️ Weaviate not available at ${config.weaviate.url} (WEAVIATE_URL), class ${this.className} not checked:`,
+        error instanceof Error ? error.message : 'Unknown error'
+      );
+      console.log('📝 Search and ingest will fail until Weaviate is reachable; set WEAVIATE_URL or use VECTOR_STORE=local');
+    }
+  }
+
+  async addChunks(chunks: VectorChunk[]): Promise<void> {
+    try {
+      console.log(`🔄 Starting to add ${chunks.length} chunks to Weaviate...`);
+      if (!this.schemaReady) {
+        await this.ensureSchema();
+      }
+      await this.ensureMetadataProperties(chunks);
+
+      // Without a vectorizer module, Weaviate stores the vectors we send
+      const vectors = this.clientVectors
+        ? await this.embeddingService.embedBatch(chunks.map(chunk => chunk.content))
+        : null;
+
+      const batcher: ObjectsBatcher = this.client.batch.objectsBatcher();
+
+      for (const [index, chunk] of chunks.entries()) {
+        const objectData = {
+          class: this.className,
+          id: chunk.id, // deterministic, so re-adding a chunk overwrites it
+          properties: this.toProperties(chunk),
+          ...(vectors && { vector: vectors[index] || [] }),
+        };
+
+        console.log(`📝 Adding chunk: ${chunk.source} (${chunk.content.substring(0, 50)}...)`);
+        batcher.withObject(objectData);
+      }
+
+      console.log(`🚀 Executing batch operation...`);
+      const result = await batcher.do();
+      console.log(`✅ Batch result:`, result);
+      console.log(`✅ Successfully added ${chunks.length} chunks to Weaviate`);
+    } catch (error) {
+      console.error('❌ Failed to add chunks to Weaviate:', error);
+      console.error('❌ Error details:', JSON.stringify(error, null, 2));
+      throw error;
+    }
+  }
+
+  async search(query: string, limit: number = 3, options: VectorSearchOptions = {}): Promise<VectorSearchResult[]> {
+    const alpha = options.alpha ?? 1;
+    const hybrid = alpha < 1;
+
+    try {
+      let builder = this.client.graphql
+        .get()
+        .withClassName(this.className)
+        .withFields(
+          `content source fileName processedAt chunkIndex title section metadataJson _additional { id ${hybrid ? 'score' : 'distance'} }`
+        );
+
+      // Queries are embedded the same way as chunks: client-side, or by the class's vectorizer module.
+      // Pure BM25 (alpha 0) needs no query vector at all.
+      const vector = this.clientVectors && alpha > 0 ? await this.embeddingService.embed(query) : undefined;
+
+      if (hybrid) {
+        builder = builder.withHybrid({ query, alpha, fusionType: FusionType.rankedFusion, ...(vector && { vector }) });
+      } else {
+        builder = vector ? builder.withNearVector({ vector }) : builder.withNearText({ concepts: [query] });
+      }
+
+      const where = options.filters ? toWhereFilter(options.filters) : undefined;
+      if (where) {
+        builder = builder.withWhere(where);
+      }
+
+      const response = await builder.withLimit(limit).do();
+      const results = response.data.Get[this.className] || [];
+
+      return results.map((result: any) => ({
+        id: result._additional?.id || '',
+        content: result.content,
+        source: result.source,
+        score: hybrid ? this.normalizeFusedScore(result._additional?.score) : this.distanceToScore(result._additional?.distance),
+        metadata: {
+          ...parseMetadataJson(result.metadataJson),
+          fileName: result.fileName,
+          processedAt: result.processedAt,
+          chunkIndex: result.chunkIndex,
+          ...(result.title && { title: result.title }),
+          ...(result.section && { section: result.section }),
+        },
+      }));
+    } catch (error) {
+      console.error('❌ Failed to search Weaviate:', error);
+      throw error;
+    }
+  }
+
+  async listSources(): Promise<VectorSourceSummary[]> {
+    try {
+      const response = await this.client.graphql
+        .aggregate()
+        .withClassName(this.className)
+        .withGroupBy(['source'])
+        .withFields('groupedBy { value } meta { count }')
+        .do();
+
+      const groups = response.data.Aggregate[this.className] || [];
+
+      return groups
+        .map((group: any) => ({
+          source: group.groupedBy?.value,
+          chunkCount: group.meta?.count || 0,
+        }))
+        .sort((a: VectorSourceSummary, b: VectorSourceSummary) => a.source.localeCompare(b.source));
+    } catch (error) {
+      console.error('❌ Failed to list Weaviate sources:', error);
+      throw error;
+    }
+  }
+
+  async deleteBySource(source: string): Promise<number> {
+    try {
+      const response = await this.client.batch
+        .objectsBatchDeleter()
+        .withClassName(this.className)
+        .withWhere({
+          path: ['source'],
+          operator: 'Equal',
+          valueText: source,
+        })
+        .do();
+
+      const deleted = response.results?.successful || 0;
+      console.log(`✅ Deleted ${deleted} chunks for source: ${source}`);
+      return deleted;
+    } catch (error) {
+      console.error(`❌ Failed to delete chunks for ${source} from Weaviate:`, error);
+      throw error;
+    }
+  }
+
+  async deleteAll(): Promise<void> {
+    try {
+      // Dropping and recreating the class is far cheaper than deleting objects in batches
+      await this.client.schema.classDeleter().withClassName(this.className).do();
+      await this.createClass();
+      console.log(`✅ Deleted all chunks from class: ${this.className}`);
+    } catch (error) {
+      console.error('❌ Failed to delete chunks from Weaviate:', error);
+      throw error;
+    }
+  }
+
+  // Batches are imported as they arrive; nothing to write out
+  async flush(): Promise<void> {}
+
+  async drop(): Promise<void> {
+    try {
+      if (await this.client.schema.exists(this.className)) {
+        await this.client.schema.classDeleter().withClassName(this.className).do();
+      }
+      console.log(`✅ Dropped class: ${this.className}`);
+    } catch (error) {
+      console.error(`❌ Failed to drop Weaviate class ${this.className}:`, error);
+      throw error;
+    }
+  }
+
+  async getStats(): Promise<VectorStoreStats> {
+    try {
+      const response = await this.client.graphql
+        .aggregate()
+        .withClassName(this.className)
+        .withFields('meta { count }')
+        .do();
+
+      const totalChunks = response.data.Aggregate[this.className]?.[0]?.meta?.count || 0;
+
+      return { totalChunks };
+    } catch (error) {
+      console.error('❌ Failed to get Weaviate stats:', error);
+      return { totalChunks: 0 };
+    }
+  }
+
+  async healthCheck(): Promise<boolean> {
+    try {
+      await this.client.misc.metaGetter().do();
+      return true;
+    } catch (error) {
+      console.error('❌ Weaviate health check failed:', error);
+      return false;
+    }
+  }
+
+  private get clientVectors(): boolean {
+    return this.vectorizer === 'none';
+  }
+
+  // Where the class's vectors come from; recorded on the class so a model change shows up as drift
+  private get vectorSource(): string {
+    return this.clientVectors ? this.embeddingService.model : this.vectorizer;
+  }
+
+  // Create the class if it's missing, otherwise bring it up to the declared schema version
+  private async ensureSchema(): Promise<void> {
+    if (await this.client.schema.exists(this.className)) {
+      await this.migrateSchema();
+    } else {
+      await this.createClass();
+    }
+    this.schemaReady = true;
+  }
+
+  private async createClass(): Promise<void> {
+    const definition = chunkClassDefinition(this.className, this.vectorizer, this.vectorSource);
+    await this.client.schema.classCreator().withClass(definition).do();
+
+    this.knownProperties = propertyTypes(definition.properties || []);
+    console.log(`✅ Created Weaviate class ${this.className} (schema v${CHUNK_SCHEMA_VERSION}, vectors: ${this.vectorSource})`);
+  }
+
+  // Apply pending additive migrations; report drift that would need the class recreated
+  private async migrateSchema(): Promise<void> {
+    const existing = await this.client.schema.classGetter().withClassName(this.className).do();
+    const plan = planMigration(existing, this.vectorizer, this.vectorSource);
+
+    for (const issue of plan.drift) {
+      console.warn(`⚠️ Schema drift in ${this.className}: ${issue} (recreate the class to fix)`);
+    }
+
+    for (const migration of plan.pending) {
+      for (const property of migrationProperties(migration, this.vectorizer)) {
+        await this.client.schema.propertyCreator().withClassName(this.className).withProperty(property).do();
+      }
+      console.log(`🔄 Migrated ${this.className} to schema v${migration.version}: ${migration.description}`);
+    }
+
+    const properties = [
+      ...(existing.properties || []),
+      ...plan.pending.flatMap(migration => migration.properties),
+    ];
+    this.knownProperties = propertyTypes(properties);
+
+    console.log(`✅ Weaviate class ${this.className} is at schema v${plan.pending.length > 0 ? CHUNK_SCHEMA_VERSION : plan.version}`);
+  }
+
+  // Declare a typed property for each metadata key the class hasn't seen yet,
+  // rather than relying on the server's auto-schema (which may be disabled)
+  private async ensureMetadataProperties(chunks: VectorChunk[]): Promise<void> {
+    for (const chunk of chunks) {
+      for (const [key, value] of Object.entries(chunk.metadata)) {
+        if (this.knownProperties.has(key)) continue;
+
+        const dataType = inferDataType(value);
+        if (!dataType) continue;
+
+        await this.client.schema.propertyCreator()
+          .withClassName(this.className)
+          .withProperty({ name: key, dataType })
+          .do();
+        this.knownProperties.set(key, dataType);
+        console.log(`🔄 Added metadata property ${this.className}.${key} (${dataType.join(',')})`);
+      }
+    }
+  }
+
+  private distanceToScore(distance: number | undefined): number {
+    return distance ? 1 - distance : 0.8;
+  }
+
+  // rankedFusion sums weight / (RRF_K + rank) with 0-based ranks; rescale so a
+  // document ranked first by both retrievers scores 1, matching the local store
+  private normalizeFusedScore(score: string | number | undefined): number {
+    const value = Number(score);
+    return Number.isFinite(value) ? Math.min(1, value * RRF_K) : 0;
+  }
+
+  // Core fields plus every scalar/array metadata value as its own (filterable) property;
+  // the full metadata also goes in as JSON so search can return it unchanged. A value that
+  // doesn't fit its property's type (the first value seen fixed it) only goes in the JSON,
+  // so one odd document can't fail the batch
+  private toProperties(chunk: VectorChunk): Record<string, unknown> {
+    const properties: Record<string, unknown> = {};
+
+    for (const [key, value] of Object.entries(chunk.metadata)) {
+      if (!inferDataType(value)) continue;
+
+      const dataType = this.knownProperties.get(key);
+      if (acceptsValue(dataType, value)) {
+        properties[key] = value;
+      } else if (!this.conflictingKeys.has(key)) {
+        this.conflictingKeys.add(key);
+        console.warn(
+          `⚠️ Metadata '${key}' in ${chunk.source} is ${inferDataType(value)?.join(',')}, but ${this.className}.${key} is ` +
+          `${dataType?.join(',')}; such values are kept in metadataJson but can't be filtered on`
+        );
+      }
+    }
+
+    return {
+      ...properties,
+      content: chunk.content,
+      source: chunk.source,
+      fileName: chunk.metadata['fileName'] || chunk.source,
+      processedAt: chunk.metadata['processedAt'] || new Date().toISOString(),
+      chunkIndex: chunk.metadata['chunkIndex'] ?? 0,
+      title: chunk.metadata['title'] || '',
+      section: chunk.metadata['section'] || '',
+      metadataJson: JSON.stringify(chunk.metadata),
+    };
+  }
+}
+
+function propertyTypes(properties: Property[]): Map<string, string[]> {
+  return new Map(properties.map(property => [property.name as string, property.dataType || []]));
+}
+
+// Objects written before metadata was stored as JSON have no metadataJson
+function parseMetadataJson(raw: string | undefined): Record<string, unknown> {
+  if (!raw) {
+    return {};
+  }
+
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return {};
+  }
+}
@@ -1,14 +1,31 @@
 import { z } from 'zod';
+import { CollectionNameSchema, MetadataFilter, MetadataFilterSchema } from '@/types/rag';
+
+// What happens to reply sentences that cite no chunk: nothing, listed in `ungrounded`, or removed
+export const GroundingModeSchema = z.enum(['off', 'flag', 'drop']);
+
+// Extra retrieval queries beside the standalone one: paraphrases or a hypothetical answer (HyDE)
+export const QueryExpansionSchema = z.enum(['none', 'multi-query', 'hyde']);
+
+// Prompt template reference: "name" (latest version) or "name@version"
+export const PromptRefSchema = z.string().regex(/^[a-z][a-z0-9_-]*(@v?\d+)?$/, 'Prompt must be "name" or "name@version"');
 
 // Request/Response schemas
 export const AgentRequestSchema = z.object({
   session_id: z.string().min(1, 'Session ID is required'),
   message: z.string().min(1, 'Message is required'),
+  filters: MetadataFilterSchema.optional(), // restricts which chunks RAG may use
+  collections: z.array(CollectionNameSchema).min(1).optional(), // knowledge bases to search (default: default)
+  strict_grounding: GroundingModeSchema.optional(), // overrides AGENT_STRICT_GROUNDING
+  query_expansion: QueryExpansionSchema.optional(), // overrides QUERY_EXPANSION
+  prompt: PromptRefSchema.optional(), // overrides PROMPT_TEMPLATE
 });
 
 export const AgentResponseSchema = z.object({
   reply: z.string(),
   used_chunks: z.array(z.object({
+    id: z.string(),
+    marker: z.number().int(), // cited as [marker] in the reply
     content: z.string(),
     source: z.string(),
     score: z.number(),
@@ -20,22 +37,90 @@ export const AgentResponseSchema = z.object({
     data: z.any().optional(),
     error: z.string().optional(),
   })),
+  // One entry per [n] reference; start/end are character offsets of the citing sentence in `reply`
+  citations: z.array(z.object({
+    marker: z.number().int(),
+    chunk_id: z.string(),
+    source: z.string(),
+    start: z.number().int(),
+    end: z.number().int(),
+  })),
+  // Sentences citing nothing, when strict grounding is `flag`
+  ungrounded: z.array(z.object({
+    start: z.number().int(),
+    end: z.number().int(),
+    text: z.string(),
+  })).optional(),
   memory_snapshot: z.array(z.object({
     role: z.enum(['user', 'assistant']),
     content: z.string(),
     timestamp: z.string(),
   })),
+  // Queries retrieval ran with; absent on error responses
+  queries: z.object({
+    standalone: z.string(),
+    expansion: QueryExpansionSchema,
+    variants: z.array(z.string()),
+  }).optional(),
+  // Template that built the prompt, as name@version; absent on error responses
+  prompt: z.string().optional(),
+  // Prompt tokens per part of this turn, counted with the configured tokenizer; absent on error responses
+  context_budget: z.object({
+    tokenizer: z.string(),
+    budget: z.number().int(),
+    used: z.number().int(),
+    sections: z.object({
+      instructions: z.number().int(),
+      message: z.number().int(),
+      memory: z.number().int(),
+      documents: z.number().int(),
+      tools: z.number().int(),
+    }),
+    chunks: z.object({ included: z.number().int(), truncated: z.number().int(), dropped: z.number().int() }),
+    tool_results: z.object({ included: z.number().int(), truncated: z.number().int(), dropped: z.number().int() }),
+  }).optional(),
   session_id: z.string(),
 });
 
 // Type exports
 export type AgentRequest = z.infer<typeof AgentRequestSchema>;
 export type AgentResponse = z.infer<typeof AgentResponseSchema>;
+export type UsedChunk = AgentResponse['used_chunks'][number];
+export type PluginUsage = AgentResponse['plugins_used'][number];
+export type Citation = AgentResponse['citations'][number];
+export type UngroundedSpan = NonNullable<AgentResponse['ungrounded']>[number];
+export type GroundingMode = z.infer<typeof GroundingModeSchema>;
+export type QueryExpansion = z.infer<typeof QueryExpansionSchema>;
+export type ContextBudgetReport = NonNullable<AgentResponse['context_budget']>;
+
+// Streaming events sent over SSE by /agent/message/stream
+export type AgentStreamEvent =
+  | { type: 'plugin'; data: PluginUsage }
+  | { type: 'chunks'; data: UsedChunk[] }
+  | { type: 'token'; data: { delta: string } }
+  | { type: 'done'; data: AgentResponse }
+  | { type: 'error'; data: { message: string; session_id: string } };
+
+// Per-message retrieval options
+export interface AgentMessageOptions {
+  filters?: MetadataFilter;
+  collections?: string[];
+  strictGrounding?: GroundingMode;
+  queryExpansion?: QueryExpansion;
+  prompt?: string;
+  // API key id; memory is kept per (owner, session) so sessions can't be read across keys
+  owner?: string;
+}
 
 // Agent service interfaces
 export interface AgentServiceInterface {
   initialize(): Promise<void>;
-  processMessage(sessionId: string, message: string): Promise<AgentResponse>;
+  processMessage(sessionId: string, message: string, options?: AgentMessageOptions): Promise<AgentResponse>;
+  processMessageStream(
+    sessionId: string,
+    message: string,
+    options?: AgentMessageOptions
+  ): AsyncGenerator<AgentStreamEvent>;
 }
 
 // Error types
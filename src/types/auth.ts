@@ -0,0 +1,36 @@
+import { z } from 'zod';
+
+// admin implies every other scope
+export const ApiKeyScopeSchema = z.enum(['agent:chat', 'rag:read', 'rag:write', 'admin']);
+
+export const ApiKeyCreateSchema = z.object({
+  name: z.string().min(1).max(100),
+  scopes: z.array(ApiKeyScopeSchema).min(1),
+}).strict();
+
+export type ApiKeyScope = z.infer<typeof ApiKeyScopeSchema>;
+
+// A stored key as reported by the admin API; the secret itself is only returned on create and rotate
+export interface ApiKey {
+  id: string;
+  name: string;
+  // Leading characters of the secret, enough to tell keys apart in logs and listings
+  prefix: string;
+  scopes: ApiKeyScope[];
+  createdAt: string;
+  rotatedAt?: string;
+  lastUsedAt?: string;
+  revokedAt?: string;
+}
+
+export interface IssuedApiKey {
+  key: string;
+  apiKey: ApiKey;
+}
+
+declare module 'fastify' {
+  interface FastifyRequest {
+    // Set by the auth guard once the request's key has been verified
+    apiKey?: ApiKey;
+  }
+}
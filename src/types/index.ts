@@ -4,4 +4,6 @@ export * from './memory';
 export * from './plugins';
 export * from './rag';
 export * from './llm';
-export * from './api';
\ No newline at end of file
+export * from './api';
+export * from './auth';
+export * from './rate-limit';
\ No newline at end of file
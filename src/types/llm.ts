@@ -1,9 +1,26 @@
 // LLM types - no longer importing from agent
 
+// Tool (function) the model may call - parameters are a JSON schema object
+export interface LLMToolDefinition {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>;
+}
+
+// Tool invocation requested by the model
+export interface LLMToolCall {
+  id: string;
+  name: string;
+  arguments: Record<string, unknown>;
+}
+
 // LLM message interface
 export interface LLMMessage {
-  role: 'system' | 'user' | 'assistant';
+  role: 'system' | 'user' | 'assistant' | 'tool';
   content: string;
+  toolCalls?: LLMToolCall[]; // assistant turns that requested tools
+  toolCallId?: string; // tool turns: the call being answered
+  name?: string; // tool turns: the tool that produced the content
 }
 
 // LLM request interface
@@ -12,28 +29,69 @@ export interface LLMRequest {
   temperature?: number;
   maxTokens?: number;
   topP?: number;
+  tools?: LLMToolDefinition[];
+}
+
+// Tokens billed for one completion
+export interface LLMUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
 }
 
 // LLM response interface
 export interface LLMResponse {
   content: string;
-  usage: {
-    promptTokens: number;
-    completionTokens: number;
-    totalTokens: number;
-  };
+  toolCalls?: LLMToolCall[];
+  usage: LLMUsage;
   metadata?: Record<string, unknown>;
 }
 
-// LLM service interface
+// Incremental output from a streamed completion; providers that report usage send it last
+export type LLMStreamChunk =
+  | { type: 'text'; delta: string }
+  | { type: 'tool_calls'; toolCalls: LLMToolCall[] }
+  | { type: 'usage'; usage: LLMUsage };
+
+// Supported LLM providers (selected through LLM_PROVIDER)
+export type LLMProviderName = 'gemini' | 'openai' | 'fake';
+
+// LLM service interface - every provider implements this
 export interface ILLMService {
+  readonly provider: LLMProviderName;
+  initialize(): Promise<void>;
   generateCompletion(request: LLMRequest): Promise<LLMResponse>;
+  generateCompletionStream(request: LLMRequest): AsyncGenerator<LLMStreamChunk>;
   generateEmbedding(text: string): Promise<number[]>;
   generateEmbeddings(texts: string[]): Promise<number[][]>;
+  healthCheck(): Promise<boolean>;
+}
+
+// Supported tokenizers (selected through TOKENIZER)
+export type TokenizerName = 'heuristic' | 'cl100k' | 'o200k';
+
+// Counts and cuts text in model tokens - used for chunk sizes and prompt budgets
+export interface Tokenizer {
+  readonly name: TokenizerName;
+  count(text: string): number;
+  // Longest prefix of `text` that fits in `maxTokens`
+  truncate(text: string, maxTokens: number): string;
 }
 
-// Prompt template interface
+// Variables available to prompt templates; `documents` and `plugins` arrive preformatted
+export interface PromptContext {
+  memory: string;
+  documents: string;
+  plugins: string;
+  message: string;
+  strictGrounding: boolean;
+}
+
+// Prompt template interface - loaded from prompts/<name>/v<version>.md
 export interface PromptTemplate {
+  name: string;
+  version: number;
+  description?: string;
   system: string;
   user: string;
   variables: string[];
@@ -41,7 +99,7 @@ export interface PromptTemplate {
 
 // Prompt builder interface
 export interface IPromptBuilder {
-  buildSystemPrompt(context: any): string;
-  buildUserPrompt(context: any): string;
-  buildFullPrompt(context: any): LLMRequest;
-}
\ No newline at end of file
+  buildSystemPrompt(context: PromptContext): string;
+  buildUserPrompt(context: PromptContext): string;
+  buildFullPrompt(context: PromptContext): LLMRequest;
+}
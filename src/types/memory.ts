@@ -13,6 +13,9 @@ export interface SessionMemory {
   createdAt: Date;
   lastAccessed: Date;
   maxMessages: number;
+  summary?: string; // rolling summary of messages evicted from the window
+  summarizedMessages?: number; // how many messages the summary covers
+  pendingSummary?: MemoryMessage[]; // evicted from the window, not yet folded into the summary
 }
 
 // Memory summary for prompts
@@ -20,6 +23,7 @@ export interface MemorySummary {
   lastMessages: MemoryMessage[];
   totalMessages: number;
   sessionAge: number; // in minutes
+  summary?: string;
 }
 
 // Memory service interface
@@ -29,4 +33,34 @@ export interface IMemoryService {
   getSummary(sessionId: string, messageCount?: number): Promise<MemorySummary>;
   clearMemory(sessionId: string): Promise<void>;
   cleanupOldSessions(maxAgeMinutes?: number): Promise<void>;
+}
+
+export interface MemoryStats {
+  totalSessions: number;
+  totalMessages: number;
+}
+
+// Supported session stores (selected through MEMORY_STORE)
+export type MemoryStoreName = 'memory' | 'sqlite' | 'redis';
+
+export interface AppendOptions {
+  maxMessages: number; // window size for a session this append creates
+  keepEvicted: boolean; // queue messages trimmed from the window in pendingSummary
+}
+
+// Storage adapter behind MemoryService. Every write is a single atomic step on the
+// store, so replicas sharing one can't overwrite each other's messages
+export interface MemoryStore {
+  readonly name: MemoryStoreName;
+  initialize(): Promise<void>;
+  get(sessionId: string): Promise<SessionMemory | null>;
+  // Append to the session (creating it) and trim it to its window; returns how many messages await summarizing
+  append(sessionId: string, message: MemoryMessage, options: AppendOptions): Promise<number>;
+  touch(sessionId: string): Promise<void>;
+  // Store a summary covering the first `covered` pending messages, unless the summary is no longer `previous`
+  saveSummary(sessionId: string, previous: string | undefined, summary: string, covered: number): Promise<boolean>;
+  delete(sessionId: string): Promise<void>;
+  deleteIdleSince(cutoff: Date): Promise<number>;
+  getStats(): Promise<MemoryStats>;
+  close(): Promise<void>;
 }
\ No newline at end of file
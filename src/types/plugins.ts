@@ -1,48 +1,47 @@
-// Base plugin interface
-export interface Plugin {
+import { z } from 'zod';
+
+// Base plugin interface - each plugin is exposed to the LLM as a callable tool.
+// Input is validated against inputSchema before execute() runs (and converted to
+// the tool's JSON schema); output is validated against outputSchema afterwards.
+export interface Plugin<TInput = any, TOutput = any> {
   name: string;
   description: string;
-  detectIntent(message: string): boolean;
-  execute(input: string): Promise<PluginResult>;
+  inputSchema: z.ZodType<TInput>;
+  outputSchema: z.ZodType<TOutput>;
+  execute(input: TInput): Promise<TOutput>;
+  formatForPrompt(output: TOutput): string;
 }
 
 // Plugin result
-export interface PluginResult {
+export interface PluginResult<TOutput = unknown> {
   name: string;
   success: boolean;
-  data?: any;
+  data?: TOutput;
   error?: string;
 }
 
-// Plugin intent detection
-export interface PluginIntent {
-  pluginName: string;
-  confidence: number;
-  extractedInput: string;
-  metadata?: Record<string, unknown>;
+// Per-plugin settings from PLUGIN_<NAME>__<KEY> environment variables
+export type PluginSettings = Record<string, string>;
+
+// What a plugin module (file in PLUGIN_DIRS or package in PLUGIN_PACKAGES) exports,
+// either as `createPlugin` or as its default export
+export type PluginFactory = (settings: PluginSettings) => Plugin | Plugin[] | Promise<Plugin | Plugin[]>;
+
+// Registered plugin as reported by the admin API
+export interface PluginInfo {
+  name: string;
+  description: string;
+  enabled: boolean;
+  source: string;
+  inputSchema: Record<string, unknown>;
+  outputSchema: Record<string, unknown>;
 }
 
 // Plugin router interface
 export interface IPluginRouter {
-  registerPlugin(plugin: Plugin): void;
-  detectIntent(input: string): PluginIntent | null;
-  executePlugin(pluginName: string, input: string): Promise<PluginResult>;
+  registerPlugin(plugin: Plugin, source?: string): void;
+  unregisterPlugin(name: string): boolean;
+  setPluginEnabled(name: string, enabled: boolean): boolean;
+  executePlugin(pluginName: string, input: unknown): Promise<PluginResult>;
   getAvailablePlugins(): Plugin[];
-}
-
-// Weather plugin specific types
-export interface WeatherData {
-  temperature: string;
-  condition: string;
-  location: string;
-  timestamp: string;
-  humidity?: number;
-  windSpeed?: string;
-}
-
-// Math plugin specific types
-export interface MathResult {
-  expression: string;
-  result: number;
-  steps?: string[];
 }
\ No newline at end of file
@@ -1,3 +1,5 @@
+import { z } from 'zod';
+
 // Document chunk interface
 export interface DocumentChunk {
   id: string;
@@ -29,6 +31,7 @@ export interface SearchResult {
 
 // RAG result for agent responses
 export interface RAGResult {
+  id: string;
   content: string;
   source: string;
   score: number;
@@ -38,7 +41,27 @@ export interface RAGResult {
 // RAG options for search
 export interface RAGOptions {
   maxSearchResults?: number;
+  // Minimum cosine similarity; only applies to pure vector search (alpha 1)
   similarityThreshold?: number;
+  // 1 = pure vector search, 0 = pure BM25, in between = hybrid fused with RRF
+  alpha?: number;
+  // Minimum normalized RRF score when alpha < 1 (fused scores aren't similarities)
+  minFusedScore?: number;
+  rerank?: RerankerName;
+  // Candidates fetched for the reranker before cutting back to maxSearchResults
+  rerankCandidates?: number;
+  filters?: MetadataFilter;
+  // Collections to search; results are merged by score (default: the default collection)
+  collections?: string[];
+}
+
+// Supported rerankers (selected through RAG_RERANKER or per request)
+export type RerankerName = 'none' | 'llm' | 'lexical';
+
+// Reranker interface - scores candidates against the query, 0..1, in input order
+export interface Reranker {
+  readonly name: Exclude<RerankerName, 'none'>;
+  score(query: string, candidates: VectorSearchResult[]): Promise<number[]>;
 }
 
 // RAG service interface
@@ -57,9 +80,191 @@ export interface ChunkingOptions {
   separator: string;
 }
 
+// Supported embedding providers (selected through EMBEDDING_PROVIDER; `llm` follows LLM_PROVIDER)
+export type EmbeddingProviderName = 'llm' | 'gemini' | 'openai' | 'hash';
+
 // Embedding service interface
 export interface IEmbeddingService {
+  // Provider and model, e.g. "gemini:embedding-001"; vectors from different models don't mix
+  readonly model: string;
+  initialize(): Promise<void>;
   embed(text: string): Promise<number[]>;
   embedBatch(texts: string[]): Promise<number[][]>;
   getDimensions(): number;
+  // Only present when the service is wrapped in the embedding cache
+  getCacheStats?(): EmbeddingCacheStats;
+}
+
+// Counters since startup; entries is the persisted total across models
+export interface EmbeddingCacheStats {
+  entries: number;
+  maxEntries: number;
+  hits: number;
+  misses: number;
+  hitRate: number;
+  evictions: number;
+}
+
+// A run of extracted text plus where it came from (page, row, ...)
+export interface LoadedSection {
+  text: string;
+  metadata?: {
+    page?: number;
+    row?: number;
+    [key: string]: unknown;
+  };
+}
+
+// Output of a document loader, ready for chunking
+export interface LoadedDocument {
+  title?: string;
+  sections: LoadedSection[];
+  // Sections already stand alone as records and must not be re-chunked (e.g. CSV rows)
+  records?: boolean;
+}
+
+// Loader interface - one per file format, registered by extension and MIME type
+export interface DocumentLoader {
+  readonly name: string;
+  readonly extensions: string[];
+  readonly mimeTypes: string[];
+  load(data: Buffer, fileName: string): Promise<LoadedDocument>;
+}
+
+// Chunk as persisted in a vector store
+export interface VectorChunk {
+  id: string;
+  content: string;
+  source: string;
+  metadata: Record<string, any>;
+}
+
+// Vector store search hit
+export interface VectorSearchResult extends VectorChunk {
+  score: number;
+  // Set when a reranker re-scored the hit (0..1); results are then ordered by it
+  rerankScore?: number;
+  // Collection the hit came from, set by the RAG service
+  collection?: string;
+}
+
+export interface VectorSearchOptions {
+  // Weight of the vector ranking against BM25 (1 = vector only, 0 = lexical only)
+  alpha?: number;
+  filters?: MetadataFilter;
+}
+
+// Metadata keys become Weaviate properties, so they must be plain identifiers
+const MetadataKeySchema = z.string().regex(/^[A-Za-z_][A-Za-z0-9_]*$/, 'Metadata keys must be letters, digits and underscores');
+const MetadataScalarSchema = z.union([z.string(), z.number(), z.boolean()]);
+
+// Set by the pipeline or returned next to metadata by the stores; as metadata keys they would
+// collide with those fields (Weaviate matches property names case-insensitively, and owns `_`-prefixed ones)
+const RESERVED_METADATA_KEYS = [
+  'id', 'content', 'source', 'collection', 'score', 'rerankScore', 'metadataJson',
+  'fileName', 'chunkIndex', 'processedAt', 'tokenCount', 'title', 'section',
+].map(key => key.toLowerCase());
+
+const ChunkMetadataKeySchema = MetadataKeySchema.refine(
+  key => !key.startsWith('_') && !RESERVED_METADATA_KEYS.includes(key.toLowerCase()),
+  key => ({ message: `'${key}' is a reserved metadata key` })
+);
+
+// User-supplied chunk metadata (tags, product, version, language, ACL group, ...)
+export const ChunkMetadataSchema = z.record(
+  ChunkMetadataKeySchema,
+  z.union([MetadataScalarSchema, z.array(z.union([z.string(), z.number()]))])
+);
+
+const FieldConditionSchema = z.object({
+  eq: MetadataScalarSchema,
+  ne: MetadataScalarSchema,
+  in: z.array(MetadataScalarSchema).min(1),   // field equals one of
+  any: z.array(MetadataScalarSchema).min(1),  // array field contains at least one of
+  all: z.array(MetadataScalarSchema).min(1),  // array field contains every one of
+  gt: z.union([z.number(), z.string()]),
+  gte: z.union([z.number(), z.string()]),
+  lt: z.union([z.number(), z.string()]),
+  lte: z.union([z.number(), z.string()]),
+}).partial().strict().refine(condition => Object.keys(condition).length > 0, 'Empty filter condition');
+
+// Search filter: field -> value (equality), list of values (one of) or operator object.
+// Fields are ANDed. `source` is the document; anything else is a metadata key.
+export const MetadataFilterSchema = z.record(
+  MetadataKeySchema,
+  z.union([MetadataScalarSchema, z.array(MetadataScalarSchema).min(1), FieldConditionSchema])
+);
+
+export type ChunkMetadata = z.infer<typeof ChunkMetadataSchema>;
+export type MetadataFilter = z.infer<typeof MetadataFilterSchema>;
+export type FieldCondition = z.infer<typeof FieldConditionSchema>;
+
+// Collection names become part of Weaviate class names and index file names
+export const CollectionNameSchema = z.string().regex(
+  /^[a-z][a-z0-9_]{0,47}$/,
+  'Collection names must start with a lowercase letter and contain only lowercase letters, digits and underscores (max 48)'
+);
+
+export const CollectionCreateSchema = z.object({
+  name: CollectionNameSchema,
+  description: z.string().max(500).optional(),
+}).strict();
+
+export const CollectionUpdateSchema = z.object({
+  description: z.string().max(500),
+}).strict();
+
+// A named knowledge base with its own index
+export interface Collection {
+  name: string;
+  description?: string;
+  createdAt: string;
+}
+
+export interface CollectionSummary extends Collection {
+  documents: number;
+  chunks: number;
+}
+
+export interface VectorStoreStats {
+  totalChunks: number;
+}
+
+// One indexed document as seen by the vector store
+export interface VectorSourceSummary {
+  source: string;
+  chunkCount: number;
+}
+
+// Outcome of an incremental ingest run over data/documents
+export interface IngestReport {
+  added: string[];
+  updated: string[];
+  unchanged: string[];
+  deleted: string[];
+  failed: Array<{ source: string; error: string }>;
+  chunksAdded: number;
+  chunksDeleted: number;
+  durationMs: number;
+}
+
+// Supported vector stores (selected through VECTOR_STORE)
+export type VectorStoreName = 'weaviate' | 'local';
+
+// Vector store interface - every backend implements this
+export interface VectorStore {
+  readonly name: VectorStoreName;
+  initialize(): Promise<void>;
+  // May buffer the write; call flush() once a batch of additions is complete
+  addChunks(chunks: VectorChunk[]): Promise<void>;
+  // Persist buffered additions (no-op for stores that write through)
+  flush(): Promise<void>;
+  search(query: string, limit: number, options?: VectorSearchOptions): Promise<VectorSearchResult[]>;
+  listSources(): Promise<VectorSourceSummary[]>;
+  deleteBySource(source: string): Promise<number>;
+  deleteAll(): Promise<void>;
+  // Remove the index itself (used when its collection is deleted)
+  drop(): Promise<void>;
+  getStats(): Promise<VectorStoreStats>;
+  healthCheck(): Promise<boolean>;
 }
\ No newline at end of file
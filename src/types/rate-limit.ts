@@ -0,0 +1,51 @@
+// Supported counter stores (selected through RATE_LIMIT_STORE)
+export type RateLimitStoreName = 'memory' | 'redis';
+
+// What a limit is counted against
+export type RateLimitDimension = 'key' | 'session' | 'ip' | 'daily_requests' | 'daily_llm_tokens';
+
+// A token bucket holding at most `capacity` that refills at `refillPerMs`
+export interface BucketSpec {
+  key: string;
+  capacity: number;
+  refillPerMs: number;
+}
+
+// A token bucket after a take; `allowed` is whether it alone held enough.
+// `tokens` is fractional, as refill is continuous
+export interface BucketState {
+  allowed: boolean;
+  tokens: number;
+}
+
+// Counter backend behind RateLimiter - both operations must be atomic per key
+export interface RateLimitStore {
+  readonly name: RateLimitStoreName;
+  initialize(): Promise<void>;
+  // Take `cost` tokens from every bucket, or from none if any is short; a new bucket starts full.
+  // Returns the buckets' states in order
+  take(buckets: BucketSpec[], cost: number): Promise<BucketState[]>;
+  // Add to a counter that is dropped `ttlSeconds` after its last increment; returns the new value
+  increment(key: string, amount: number, ttlSeconds: number): Promise<number>;
+  // 0 for a counter that doesn't exist (yet)
+  get(key: string): Promise<number>;
+  close(): Promise<void>;
+}
+
+// One limit as reported in RateLimit-* headers
+export interface RateLimitState {
+  dimension: RateLimitDimension;
+  limit: number;
+  remaining: number;
+  // Seconds until the limit is fully available again
+  resetSeconds: number;
+  // Set when the request was refused: seconds until it would be accepted
+  retryAfterSeconds?: number;
+}
+
+// Who a request is counted against
+export interface RateLimitIdentity {
+  ip: string;
+  key?: string;
+  session?: string;
+}
@@ -0,0 +1,70 @@
+import { FastifyReply, FastifyRequest, preHandlerAsyncHookHandler } from 'fastify';
+import { config } from '@/config';
+import { ApiKeyService } from '@/services/api-keys';
+import { ApiKey, ApiKeyScope } from '@/types/auth';
+
+// Accepts "Authorization: Bearer <key>" or "X-API-Key: <key>"
+function presentedKey(request: FastifyRequest): string | undefined {
+  const header = request.headers['x-api-key'];
+  if (typeof header === 'string' && header) {
+    return header;
+  }
+
+  const match = request.headers.authorization?.match(/^Bearer\s+(\S+)$/i);
+  return match?.[1];
+}
+
+function hasScope(apiKey: ApiKey, scope: ApiKeyScope): boolean {
+  return apiKey.scopes.includes('admin') || apiKey.scopes.includes(scope);
+}
+
+function sendAuthError(reply: FastifyReply, statusCode: 401 | 403, error: string) {
+  if (statusCode === 401) {
+    reply.header('WWW-Authenticate', 'Bearer');
+  }
+
+  return reply.status(statusCode).send({
+    success: false,
+    error,
+  });
+}
+
+/**
+ * Route preHandler that lets a request through only with a valid key holding
+ * `scope` (or admin), and records the key on `request.apiKey`. Does nothing
+ * while AUTH_ENABLED is off.
+ */
+export function requireScope(apiKeys: ApiKeyService, scope: ApiKeyScope): preHandlerAsyncHookHandler {
+  return async (request, reply) => {
+    if (!config.auth.enabled) return;
+
+    const key = presentedKey(request);
+    if (!key) {
+      return sendAuthError(reply, 401, 'Missing API key');
+    }
+
+    const apiKey = apiKeys.verify(key);
+    if (!apiKey) {
+      return sendAuthError(reply, 401, 'Invalid or revoked API key');
+    }
+
+    if (!hasScope(apiKey, scope)) {
+      return sendAuthError(reply, 403, `API key lacks the '${scope}' scope`);
+    }
+
+    request.apiKey = apiKey;
+  };
+}
+
+/**
+ * Route preHandler that refuses the request (403) while AUTH_ENABLED is off.
+ * Guards key management: keys issued while every route is open would start
+ * working, admin ones included, the moment auth is turned on.
+ */
+export function requireAuthEnabled(): preHandlerAsyncHookHandler {
+  return async (_request, reply) => {
+    if (config.auth.enabled) return;
+
+    return sendAuthError(reply, 403, 'API key management is unavailable while AUTH_ENABLED=false');
+  };
+}
@@ -11,6 +11,7 @@ export function sendAgentError(
   const errorResponse: typeof AgentResponseSchema._type = {
     reply: message,
     used_chunks: [],
+    citations: [],
     plugins_used: [],
     memory_snapshot: [],
     session_id: sessionId,
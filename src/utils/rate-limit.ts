@@ -0,0 +1,101 @@
+import { FastifyReply, FastifyRequest, preHandlerAsyncHookHandler } from 'fastify';
+import { config } from '@/config';
+import { RateLimiter } from '@/services/rate-limiter';
+import { meterLLMUsage } from '@/services/llm/metered';
+import { ErrorType } from '@/types/api';
+import { RateLimitDimension, RateLimitIdentity, RateLimitState } from '@/types/rate-limit';
+
+const LIMITED: Record<RateLimitDimension, string> = {
+  key: 'Too many requests for this API key',
+  session: 'Too many requests for this session',
+  ip: 'Too many requests from this IP address',
+  daily_requests: 'Daily request quota exceeded',
+  daily_llm_tokens: 'Daily LLM token quota exceeded',
+};
+
+// Window of each kind of limit, for RateLimit-Policy
+const WINDOW_SECONDS: Record<RateLimitDimension, number> = {
+  key: 60,
+  session: 60,
+  ip: 60,
+  daily_requests: 86400,
+  daily_llm_tokens: 86400,
+};
+
+// The API key (set by the auth guard), the session named in the body if any, and the client IP
+export function rateLimitIdentity(request: FastifyRequest): RateLimitIdentity {
+  const session = (request.body as { session_id?: unknown } | undefined)?.session_id;
+
+  return {
+    ip: request.ip,
+    ...(request.apiKey && { key: request.apiKey.id }),
+    ...(typeof session === 'string' && session && { session }),
+  };
+}
+
+function setRateLimitHeaders(reply: FastifyReply, state: RateLimitState) {
+  reply.header('RateLimit-Policy', `${state.limit};w=${WINDOW_SECONDS[state.dimension]}`);
+  reply.header('RateLimit-Limit', state.limit);
+  reply.header('RateLimit-Remaining', state.remaining);
+  reply.header('RateLimit-Reset', state.resetSeconds);
+}
+
+function sendRateLimitError(reply: FastifyReply, state: RateLimitState) {
+  const retryAfter = state.retryAfterSeconds ?? state.resetSeconds;
+  setRateLimitHeaders(reply, state);
+  reply.header('Retry-After', retryAfter);
+
+  return reply.status(429).send({
+    success: false,
+    error: ErrorType.RATE_LIMIT,
+    message: WINDOW_SECONDS[state.dimension] === 86400
+      ? `${LIMITED[state.dimension]}; it resets at midnight UTC, in ${retryAfter}s`
+      : `${LIMITED[state.dimension]}; retry in ${retryAfter}s`,
+    timestamp: new Date().toISOString(),
+  });
+}
+
+// Refuses (429) a caller out of daily LLM tokens; false once that reply has been sent
+export async function checkTokenQuota(limiter: RateLimiter, request: FastifyRequest, reply: FastifyReply): Promise<boolean> {
+  if (!config.rateLimit.enabled) return true;
+
+  const decision = await limiter.checkTokenQuota(rateLimitIdentity(request));
+  if (!decision.allowed && decision.state) {
+    sendRateLimitError(reply, decision.state);
+    return false;
+  }
+  return true;
+}
+
+// Run a handler's LLM work with the usage of every completion charged to the caller's daily token quota
+export function chargeLLMTokens<T>(limiter: RateLimiter, request: FastifyRequest, fn: () => T): T {
+  const identity = rateLimitIdentity(request);
+  return meterLLMUsage(usage => void limiter.recordTokens(identity, usage.totalTokens), fn);
+}
+
+/**
+ * Route preHandler that counts the request against the caller's rate limits
+ * and daily request quota, and sets RateLimit-* headers for the tightest one.
+ * With `llmTokens`, it also refuses callers out of daily LLM tokens; the route
+ * runs its LLM work through chargeLLMTokens. Must run after the auth guard so
+ * the request is counted against its key.
+ */
+export function rateLimit(limiter: RateLimiter, options: { llmTokens?: boolean } = {}): preHandlerAsyncHookHandler {
+  return async (request, reply) => {
+    if (!config.rateLimit.enabled) return;
+
+    const identity = rateLimitIdentity(request);
+    const decision = await limiter.consume(identity);
+    if (!decision.allowed && decision.state) {
+      return sendRateLimitError(reply, decision.state);
+    }
+
+    if (options.llmTokens && !(await checkTokenQuota(limiter, request, reply))) {
+      return reply;
+    }
+
+    if (decision.state) {
+      setRateLimitHeaders(reply, decision.state);
+    }
+  };
+}
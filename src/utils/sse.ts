@@ -0,0 +1,32 @@
+import { FastifyReply } from 'fastify';
+
+// Take over the raw response and send the Server-Sent Events headers.
+// Headers already set on the reply (e.g. by @fastify/cors) are carried over,
+// since hijacking bypasses Fastify's onSend pipeline.
+export function openSSEStream(reply: FastifyReply) {
+  reply.hijack();
+
+  for (const [name, value] of Object.entries(reply.getHeaders())) {
+    if (value !== undefined) {
+      reply.raw.setHeader(name, value);
+    }
+  }
+
+  reply.raw.writeHead(200, {
+    'Content-Type': 'text/event-stream; charset=utf-8',
+    'Cache-Control': 'no-cache, no-transform',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no',
+  });
+}
+
+// Write a single named SSE event with a JSON payload
+export function writeSSEEvent(reply: FastifyReply, event: string, data: unknown) {
+  reply.raw.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+export function closeSSEStream(reply: FastifyReply) {
+  if (!reply.raw.writableEnded) {
+    reply.raw.end();
+  }
+}
\ No newline at end of file